@@ -1,26 +1,71 @@
 import "dotenv/config";
-import OpenAI from "openai";
 import * as ynab from "ynab";
+import { anthropicProvider, LLMProvider, openAIProvider } from "./llm.js";
+import { asList, asRecord } from "./json.js";
 
 const OPENAI_ENABLED = process.env.OPENAI_ENABLED?.toLowerCase() === "true";
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY || "";
-const OPENAI_MODEL = process.env.OPENAI_MODEL || "gpt-4o-mini";
 const OPENAI_EXCLUDED_CATEGORIES = process.env.OPENAI_EXCLUDED_CATEGORIES || "";
 
+// "openai", "openai-compatible" or "anthropic". OPENAI_ENABLED=true is the
+// older way to pick "openai".
+const AI_PROVIDER = (
+  process.env.AI_PROVIDER || (OPENAI_ENABLED ? "openai" : "")
+).toLowerCase();
+const AI_BASE_URL = process.env.AI_BASE_URL;
+const AI_TIMEOUT_SECONDS = parseFloat(process.env.AI_TIMEOUT_SECONDS || "30");
+const AI_MAX_RETRIES = parseInt(process.env.AI_MAX_RETRIES || "3");
+
 // Parse excluded categories from comma-separated list
 const excludedCategoryNames = OPENAI_EXCLUDED_CATEGORIES.split(",")
   .map((name) => name.trim().toLowerCase())
   .filter((name) => name.length > 0);
 
-let openai: OpenAI | null = null;
+const createProvider = (): LLMProvider | null => {
+  if (!AI_PROVIDER || AI_PROVIDER === "none") return null;
 
-if (OPENAI_ENABLED) {
-  if (!OPENAI_API_KEY) {
-    throw new Error(
-      "OPENAI_ENABLED is set to true, but OPENAI_API_KEY is not provided"
-    );
+  const options = {
+    timeout: AI_TIMEOUT_SECONDS * 1000,
+    maxRetries: AI_MAX_RETRIES,
+    baseURL: AI_BASE_URL,
+  };
+
+  if (AI_PROVIDER === "openai" || AI_PROVIDER === "openai-compatible") {
+    const apiKey = process.env.AI_API_KEY || process.env.OPENAI_API_KEY || "";
+    const model =
+      process.env.AI_MODEL || process.env.OPENAI_MODEL || "gpt-4o-mini";
+    if (AI_PROVIDER === "openai" && !apiKey)
+      throw new Error(
+        "AI categorization with OpenAI is enabled, but OPENAI_API_KEY is not provided"
+      );
+    if (AI_PROVIDER === "openai-compatible" && !AI_BASE_URL)
+      throw new Error(
+        "AI_PROVIDER is openai-compatible, but AI_BASE_URL is not provided"
+      );
+    return openAIProvider({ ...options, apiKey, model });
+  }
+
+  if (AI_PROVIDER === "anthropic") {
+    const apiKey = process.env.AI_API_KEY || process.env.ANTHROPIC_API_KEY;
+    if (!apiKey)
+      throw new Error(
+        "AI_PROVIDER is anthropic, but ANTHROPIC_API_KEY is not provided"
+      );
+    const model = process.env.AI_MODEL || "claude-3-5-haiku-latest";
+    return anthropicProvider({ ...options, apiKey, model });
   }
-  openai = new OpenAI({ apiKey: OPENAI_API_KEY });
+
+  throw new Error(`Unknown AI_PROVIDER "${AI_PROVIDER}"`);
+};
+
+let provider = createProvider();
+
+// Replaces the configured provider, e.g. with a stub in tests
+export const setProvider = (replacement: LLMProvider | null): void => {
+  provider = replacement;
+};
+
+if (provider) {
+  console.log(`AI categorization will use ${provider.name}`);
 
   if (excludedCategoryNames.length > 0) {
     console.log(
@@ -31,13 +76,25 @@ if (OPENAI_ENABLED) {
   }
 }
 
-interface CategoryMatch {
+interface CategoryCandidate {
   categoryId: string;
   categoryName: string;
+  confidence: number; // 0 to 1
+}
+
+interface ItemCategory extends CategoryCandidate {
+  item: string;
+  source: string;
+}
+
+interface CategoryMatch extends CategoryCandidate {
   reasoning: string;
+  source: string; // What decided the category, for the logs
+  alternatives: CategoryCandidate[]; // Next best categories, best first
+  items: ItemCategory[]; // The category of each item, in order
 }
 
-export const isEnabled = (): boolean => OPENAI_ENABLED;
+export const isEnabled = (): boolean => provider !== null;
 
 export const filterCategories = (
   categories: ynab.Category[]
@@ -58,22 +115,109 @@ export const filterCategories = (
   return filtered;
 };
 
-export const inferCategory = async (
+// Past purchases and the category they were given, to show the model how
+// this household categorizes things
+interface PromptExample {
+  memo: string;
+  categoryName: string;
+}
+
+// A model's choice, checked against the allowed categories. Unknown
+// alternatives and items are dropped, and items the model left out get the
+// category of the order.
+export const parseResponse = (
+  response: unknown,
   items: string[],
-  categories: ynab.Category[]
-): Promise<CategoryMatch | null> => {
-  if (!OPENAI_ENABLED || !openai) {
-    return null;
+  categories: ynab.Category[],
+  source: string
+): CategoryMatch | null => {
+  const candidate = (choice: unknown): CategoryCandidate | null => {
+    const { categoryId, confidence: given } = asRecord(choice);
+    const category = categories.find((c) => c.id === categoryId);
+    if (!category) return null;
+    const confidence = Number(given);
+    return {
+      categoryId: category.id,
+      categoryName: category.name,
+      // Models that don't say how sure they are are taken at their word
+      confidence: isNaN(confidence) ? 1 : Math.min(Math.max(confidence, 0), 1),
+    };
+  };
+
+  const order = candidate(response);
+  if (!order) return null;
+  const fields = asRecord(response);
+
+  const alternatives = asList(fields.alternatives)
+    .map(candidate)
+    .filter(
+      (c): c is CategoryCandidate =>
+        c !== null && c.categoryId !== order.categoryId
+    );
+
+  const itemChoices = asList(fields.items);
+  const itemCategories = items.map((item, index) => {
+    const choice = itemChoices.find((c) => asRecord(c).index === index + 1);
+    return { ...(candidate(choice) || order), item, source };
+  });
+
+  return {
+    ...order,
+    reasoning: String(fields.reasoning || ""),
+    source,
+    alternatives,
+    items: itemCategories,
+  };
+};
+
+// Matches the model's answer for each order in a batch. Answers are found
+// by their order number, or by position if the model left the numbers out.
+export const parseBatchResponse = (
+  response: unknown,
+  orders: string[][],
+  categories: ynab.Category[],
+  source: string
+): (CategoryMatch | null)[] => {
+  const wrapped = asRecord(response).orders;
+  const choices: unknown[] = Array.isArray(wrapped) ? wrapped : [response]; // A single order answered without the wrapper
+  const numbered = choices.some((c) => asRecord(c).order !== undefined);
+  return orders.map((items, index) => {
+    const choice = numbered
+      ? choices.find((c) => Number(asRecord(c).order) === index + 1)
+      : choices[index];
+    return choice ? parseResponse(choice, items, categories, source) : null;
+  });
+};
+
+// Room for the answer to a batch: each order's categories, confidence,
+// reasoning and alternatives, and a category for each of its items
+const answerTokens = (orders: string[][]): number =>
+  orders.reduce((sum, items) => sum + 250 + 50 * items.length, 200);
+
+// Categorizes several orders in one request. Orders the model gets wrong or
+// leaves out come back as null.
+export const inferCategories = async (
+  orders: string[][],
+  categories: ynab.Category[],
+  examples: PromptExample[] = []
+): Promise<(CategoryMatch | null)[]> => {
+  const none = orders.map(() => null);
+  if (!provider || orders.length === 0) {
+    return none;
   }
 
-  console.log("Inferring category...");
+  console.log(
+    `Inferring categories for ${orders.length} order${
+      orders.length === 1 ? "" : "s"
+    }...`
+  );
 
   // Filter out excluded categories
   const allowedCategories = filterCategories(categories);
 
   if (allowedCategories.length === 0) {
     console.error("No categories available after filtering exclusions");
-    return null;
+    return none;
   }
 
   try {
@@ -81,73 +225,96 @@ export const inferCategory = async (
       .map((c) => `- ${c.name} (ID: ${c.id})`)
       .join("\n");
 
-    const itemList = items.map((item) => `- ${item}`).join("\n");
+    const orderList = orders
+      .map(
+        (items, index) =>
+          `Order ${index + 1}:\n${items
+            .map((item, itemIndex) => `${itemIndex + 1}. ${item}`)
+            .join("\n")}`
+      )
+      .join("\n\n");
+
+    const exampleList =
+      examples.length > 0
+        ? `\nPast Purchases and Their Categories (follow these where items are similar):\n${examples
+            .map((e) => `- ${e.memo} -> ${e.categoryName}`)
+            .join("\n")}\n`
+        : "";
 
-    const prompt = `You are a financial categorization assistant. Given a list of items from an Amazon order and a list of available budget categories, determine the most appropriate category for this purchase.
+    const prompt = `You are a financial categorization assistant. Given the items of one or more Amazon orders and a list of available budget categories, determine the most appropriate category for each order.
 
-Amazon Order Items:
-${itemList}
+Amazon Orders:
+${orderList}
 
 Available Categories:
 ${categoryList}
-
-Please analyze the items and select the SINGLE most appropriate category. Consider:
+${exampleList}
+Please analyze each order on its own and select the SINGLE most appropriate category for it. Consider:
 1. The primary purpose of the items
-2. If there are multiple items, choose the category that best represents the majority or most significant items
+2. If an order has multiple items, choose the category that best represents the majority or most significant items
 3. Be practical and choose categories that make sense for personal budgeting
 
-Respond with a JSON object in this exact format:
+Also choose the most appropriate category for each item on its own. For every choice, give your confidence from 0 to 1 that it is the category this household would pick, and list up to 2 alternative categories with their confidence.
+
+Respond with a JSON object in this exact format, with one entry per order:
 {
-  "categoryId": "the category ID",
-  "categoryName": "the category name",
-  "reasoning": "brief explanation of why this category was chosen"
+  "orders": [
+    {
+      "order": 1,
+      "categoryId": "the category ID",
+      "categoryName": "the category name",
+      "confidence": 0.9,
+      "reasoning": "brief explanation of why this category was chosen",
+      "alternatives": [{ "categoryId": "...", "categoryName": "...", "confidence": 0.1 }],
+      "items": [{ "index": 1, "categoryId": "...", "categoryName": "...", "confidence": 0.9 }]
+    }
+  ]
 }`;
 
-    const response = await openai.chat.completions.create({
-      model: OPENAI_MODEL,
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are a helpful assistant that categorizes purchases. Always respond with valid JSON only.",
-        },
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-      temperature: 0.3,
-      response_format: { type: "json_object" },
+    const content = await provider.complete({
+      system:
+        "You are a helpful assistant that categorizes purchases. Always respond with valid JSON only.",
+      prompt,
+      maxTokens: answerTokens(orders),
     });
-
-    const content = response.choices[0].message.content;
     if (!content) {
-      console.error("OpenAI returned empty response");
-      return null;
+      console.error(`${provider.name} returned empty response`);
+      return none;
     }
 
-    const result = JSON.parse(content) as CategoryMatch;
-
-    // Validate that the category ID exists in the allowed categories
-    const categoryExists = allowedCategories.some(
-      (c) => c.id === result.categoryId
+    const results = parseBatchResponse(
+      JSON.parse(content),
+      orders,
+      allowedCategories,
+      `model ${provider.name}`
     );
-    if (!categoryExists) {
-      console.error(
-        `OpenAI returned invalid category ID: ${result.categoryId}`
+    for (const [index, result] of results.entries()) {
+      const items = orders[index].join(", ");
+      if (!result) {
+        console.error(
+          `${provider.name} returned no valid category for [${items}]`
+        );
+        continue;
+      }
+      console.log(
+        `AI categorized [${items}] as "${
+          result.categoryName
+        }" (confidence ${result.confidence.toFixed(2)}): ${result.reasoning}`
       );
-      return null;
     }
 
-    console.log(
-      `AI categorized [${items.join(", ")}] as "${result.categoryName}": ${
-        result.reasoning
-      }`
-    );
-
-    return result;
+    return results;
   } catch (error) {
-    console.error("Error calling OpenAI API:", error);
-    return null;
+    console.error(`Error calling ${provider.name}:`, error);
+    return none;
   }
 };
+
+export const inferCategory = async (
+  items: string[],
+  categories: ynab.Category[],
+  examples: PromptExample[] = []
+): Promise<CategoryMatch | null> =>
+  (await inferCategories([items], categories, examples))[0];
+
+export type { CategoryCandidate, CategoryMatch, ItemCategory, PromptExample };
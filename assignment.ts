@@ -0,0 +1,182 @@
+// Pairs orders (rows) with transactions (columns) one-to-one. As many pairs
+// as possible are made, at the lowest total cost, and pairs that another
+// assignment would make just as well are held back instead of guessed.
+
+interface Candidate {
+  row: number;
+  column: number;
+  cost: number; // Lower is better, from 0 to 2
+}
+
+interface Pair {
+  row: number;
+  column: number;
+}
+
+interface Ambiguity extends Pair {
+  // What an equally good assignment does instead: the row it gives the
+  // column to, and the column it gives the row
+  otherRow?: number;
+  otherColumn?: number;
+}
+
+interface Assignment {
+  pairs: Pair[];
+  ambiguous: Ambiguity[];
+}
+
+// Costs are equal when they differ by less than this
+const EPSILON = 1e-9;
+
+// Hungarian algorithm for a matrix with no more rows than columns. Returns
+// the column assigned to each row.
+const solve = (costs: number[][]): number[] => {
+  const rows = costs.length;
+  const columns = costs[0].length;
+  // Potentials and the row assigned to each column, all 1-based with a
+  // sentinel column 0
+  const u = new Array<number>(rows + 1).fill(0);
+  const v = new Array<number>(columns + 1).fill(0);
+  const rowOf = new Array<number>(columns + 1).fill(0);
+  const way = new Array<number>(columns + 1).fill(0);
+
+  for (let row = 1; row <= rows; row++) {
+    rowOf[0] = row;
+    let column = 0;
+    const minReduced = new Array<number>(columns + 1).fill(Infinity);
+    const used = new Array<boolean>(columns + 1).fill(false);
+    do {
+      used[column] = true;
+      const current = rowOf[column];
+      let delta = Infinity;
+      let next = 0;
+      for (let j = 1; j <= columns; j++) {
+        if (used[j]) continue;
+        const reduced = costs[current - 1][j - 1] - u[current] - v[j];
+        if (reduced < minReduced[j]) {
+          minReduced[j] = reduced;
+          way[j] = column;
+        }
+        if (minReduced[j] < delta) {
+          delta = minReduced[j];
+          next = j;
+        }
+      }
+      for (let j = 0; j <= columns; j++) {
+        if (used[j]) {
+          u[rowOf[j]] += delta;
+          v[j] -= delta;
+        } else minReduced[j] -= delta;
+      }
+      column = next;
+    } while (rowOf[column] !== 0);
+
+    // Flip the augmenting path
+    do {
+      const previous = way[column];
+      rowOf[column] = rowOf[previous];
+      column = previous;
+    } while (column !== 0);
+  }
+
+  const assigned = new Array<number>(rows).fill(-1);
+  for (let j = 1; j <= columns; j++)
+    if (rowOf[j] !== 0) assigned[rowOf[j] - 1] = j - 1;
+  return assigned;
+};
+
+// Solves one group of connected candidates. Missing pairs cost more than
+// any set of real ones, so the most pairs possible are always made.
+const assignGroup = (
+  candidates: Candidate[],
+  interchangeable: (a: number, b: number) => boolean
+): Assignment => {
+  const rows = [...new Set(candidates.map((c) => c.row))];
+  const columns = [...new Set(candidates.map((c) => c.column))];
+  const transpose = rows.length > columns.length;
+  const [outer, inner] = transpose ? [columns, rows] : [rows, columns];
+  const missing = 2 * (outer.length + 1);
+
+  const costs = outer.map(() => new Array<number>(inner.length).fill(missing));
+  for (const c of candidates) {
+    const [o, i] = transpose ? [c.column, c.row] : [c.row, c.column];
+    costs[outer.indexOf(o)][inner.indexOf(i)] = c.cost;
+  }
+  const toPairs = (assigned: number[]): Pair[] =>
+    assigned.flatMap((i, o) =>
+      costs[o][i] < missing
+        ? [
+            transpose
+              ? { row: inner[i], column: outer[o] }
+              : { row: outer[o], column: inner[i] },
+          ]
+        : []
+    );
+  const total = (matrix: number[][], assigned: number[]): number =>
+    assigned.reduce((sum, i, o) => sum + matrix[o][i], 0);
+
+  const assigned = solve(costs);
+  const best = total(costs, assigned);
+  const pairs: Pair[] = [];
+  const ambiguous: Ambiguity[] = [];
+
+  for (const pair of toPairs(assigned)) {
+    // Would the column do as well with an order that isn't the same as this
+    // one? Equal orders can swap without changing anything written.
+    const forbidden = costs.map((row) => [...row]);
+    for (const row of rows) {
+      if (row !== pair.row && !interchangeable(row, pair.row)) continue;
+      const [o, i] = transpose ? [pair.column, row] : [row, pair.column];
+      forbidden[outer.indexOf(o)][inner.indexOf(i)] = missing;
+    }
+    const alternative = solve(forbidden);
+    if (total(forbidden, alternative) > best + EPSILON) {
+      pairs.push(pair);
+      continue;
+    }
+
+    const otherPairs = toPairs(alternative);
+    ambiguous.push({
+      ...pair,
+      otherRow: otherPairs.find((p) => p.column === pair.column)?.row,
+      otherColumn: otherPairs.find((p) => p.row === pair.row)?.column,
+    });
+  }
+  return { pairs, ambiguous };
+};
+
+// `interchangeable` tells whether two rows would be written the same way,
+// e.g. repeat orders of the same items
+export const assign = (
+  candidates: Candidate[],
+  interchangeable: (a: number, b: number) => boolean = () => false
+): Assignment => {
+  // Rows and columns that share no candidates are solved separately, which
+  // keeps each matrix small
+  const groupOf = new Map<string, string>();
+  const find = (key: string): string => {
+    const parent = groupOf.get(key) ?? key;
+    if (parent === key) return key;
+    const root = find(parent);
+    groupOf.set(key, root);
+    return root;
+  };
+  for (const c of candidates)
+    groupOf.set(find(`r${c.row}`), find(`c${c.column}`));
+
+  const groups = new Map<string, Candidate[]>();
+  for (const c of candidates) {
+    const root = find(`r${c.row}`);
+    groups.set(root, [...(groups.get(root) || []), c]);
+  }
+
+  const result: Assignment = { pairs: [], ambiguous: [] };
+  for (const group of groups.values()) {
+    const { pairs, ambiguous } = assignGroup(group, interchangeable);
+    result.pairs.push(...pairs);
+    result.ambiguous.push(...ambiguous);
+  }
+  return result;
+};
+
+export type { Ambiguity, Assignment, Candidate, Pair };
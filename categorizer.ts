@@ -0,0 +1,222 @@
+import crypto from "crypto";
+import * as ynab from "ynab";
+import * as AICategorizer from "./ai-categorizer.js";
+import type {
+  CategoryMatch,
+  ItemCategory,
+  PromptExample,
+} from "./ai-categorizer.js";
+import { findCategory, findRule, ruleSet } from "./category-rules.js";
+import {
+  CategoryExample,
+  classify,
+  findSimilarExamples,
+} from "./category-examples.js";
+import { mapWithConcurrency } from "./llm.js";
+
+// "prompt" shows the model similar past purchases, "local" categorizes from
+// them without the model when they agree
+const CATEGORY_LEARNING = (
+  process.env.CATEGORY_LEARNING || "off"
+).toLowerCase();
+const CATEGORY_LEARNING_EXAMPLES = parseInt(
+  process.env.CATEGORY_LEARNING_EXAMPLES || "10"
+);
+
+// Orders per model request, and requests in flight at once
+const AI_BATCH_SIZE = Math.max(parseInt(process.env.AI_BATCH_SIZE || "20"), 1);
+const AI_MAX_CONCURRENCY = parseInt(process.env.AI_MAX_CONCURRENCY || "2");
+
+// Share of the similar examples that must agree for a local result
+const LOCAL_MIN_CONFIDENCE = 0.6;
+
+export const isEnabled = (): boolean =>
+  ruleSet !== null ||
+  CATEGORY_LEARNING === "local" ||
+  AICategorizer.isEnabled();
+
+export const isLearningEnabled = (): boolean =>
+  CATEGORY_LEARNING === "prompt" || CATEGORY_LEARNING === "local";
+
+// A category decided without the model, for every item
+const categoryMatch = (
+  nameOrId: string,
+  categories: ynab.Category[],
+  items: string[],
+  source: string,
+  confidence = 1
+): CategoryMatch | null => {
+  const category = findCategory(categories, nameOrId);
+  if (!category) {
+    console.error(`${source} refers to unknown category "${nameOrId}"`);
+    return null;
+  }
+  const candidate = {
+    categoryId: category.id,
+    categoryName: category.name,
+    confidence,
+  };
+  return {
+    ...candidate,
+    reasoning: `${source} matched`,
+    source,
+    alternatives: [],
+    items: items.map((item) => ({ ...candidate, item, source })),
+  };
+};
+
+const logMatch = (items: string[], match: CategoryMatch): void =>
+  console.log(
+    `Categorized [${items.join(", ")}] as "${match.categoryName}" by ${
+      match.source
+    }`
+  );
+
+const usableExamples = (
+  examples: CategoryExample[],
+  categories: ynab.Category[]
+): CategoryExample[] =>
+  isLearningEnabled()
+    ? // Past purchases in categories that no longer exist are no help
+      examples.filter((e) => categories.some((c) => c.id === e.categoryId))
+    : [];
+
+// The category from the rules or, in local learning mode, from similar past
+// purchases, if either is sure
+const localMatch = (
+  items: string[],
+  categories: ynab.Category[],
+  examples: CategoryExample[]
+): CategoryMatch | null => {
+  const rule = ruleSet && findRule(ruleSet, items);
+  const ruleResult =
+    rule &&
+    categoryMatch(rule.category, categories, items, `rule "${rule.name}"`);
+  if (ruleResult) return ruleResult;
+
+  if (CATEGORY_LEARNING !== "local") return null;
+  const local = classify(examples, items, CATEGORY_LEARNING_EXAMPLES);
+  if (!local || local.confidence < LOCAL_MIN_CONFIDENCE) return null;
+  return categoryMatch(
+    local.categoryId,
+    categories,
+    items,
+    "similar past purchases",
+    local.confidence
+  );
+};
+
+const promptExamples = (
+  examples: CategoryExample[],
+  orders: string[][],
+  categories: ynab.Category[]
+): PromptExample[] =>
+  findSimilarExamples(examples, orders.flat(), CATEGORY_LEARNING_EXAMPLES).map(
+    (e) => ({
+      memo: e.memo,
+      categoryName: findCategory(categories, e.categoryId)!.name,
+    })
+  );
+
+const fallbackMatch = (
+  items: string[],
+  categories: ynab.Category[]
+): CategoryMatch | null =>
+  ruleSet?.fallback
+    ? categoryMatch(ruleSet.fallback, categories, items, "fallback category")
+    : null;
+
+// Identifies a category list, so cached results are dropped once
+// categories are added, renamed or removed
+export const categoryListHash = (categories: ynab.Category[]): string =>
+  crypto
+    .createHash("sha256")
+    .update(
+      categories
+        .map((c) => `${c.id}:${c.name}`)
+        .sort()
+        .join("\n")
+    )
+    .digest("hex")
+    .slice(0, 12);
+
+export const normalizeTitle = (title: string): string =>
+  title.toLowerCase().replace(/\s+/g, " ").trim();
+
+const categoryCacheKey = (hash: string, items: string[]): string =>
+  `${hash}:${items.map(normalizeTitle).join("\n")}`;
+
+// Drops cached model results, so the orders are asked about again
+export const forgetCategories = (
+  cache: Record<string, CategoryMatch>,
+  categories: ynab.Category[],
+  orders: string[][]
+): void => {
+  const hash = categoryListHash(categories);
+  for (const items of orders) delete cache[categoryCacheKey(hash, items)];
+};
+
+// Categorizes many orders at once, each given as its item titles. The rules
+// and past purchases go first, then the cache of earlier model results, and
+// only what's left goes to the model, several orders per request. The
+// fallback category covers whatever the model can't.
+export const inferCategories = async (
+  orders: string[][],
+  categories: ynab.Category[],
+  examples: CategoryExample[] = [],
+  cache: Record<string, CategoryMatch> = {}
+): Promise<(CategoryMatch | null)[]> => {
+  const usable = usableExamples(examples, categories);
+  const hash = categoryListHash(categories);
+  const cacheKey = (items: string[]): string => categoryCacheKey(hash, items);
+
+  for (const key of Object.keys(cache))
+    if (!key.startsWith(`${hash}:`)) delete cache[key];
+
+  const results = orders.map((items) => {
+    const local = localMatch(items, categories, usable);
+    if (local) {
+      logMatch(items, local);
+      return local;
+    }
+    const cached = cache[cacheKey(items)];
+    if (cached) {
+      logMatch(items, { ...cached, source: `cached ${cached.source}` });
+      return cached;
+    }
+    return null;
+  });
+
+  // Orders with the same items are only asked about once
+  const pending = new Map<string, string[]>();
+  for (const [index, items] of orders.entries())
+    if (!results[index]) pending.set(cacheKey(items), items);
+
+  if (AICategorizer.isEnabled() && pending.size > 0) {
+    const keys = [...pending.keys()];
+    const batches: string[][] = [];
+    for (let i = 0; i < keys.length; i += AI_BATCH_SIZE)
+      batches.push(keys.slice(i, i + AI_BATCH_SIZE));
+
+    await mapWithConcurrency(batches, AI_MAX_CONCURRENCY, async (batch) => {
+      const batchOrders = batch.map((key) => pending.get(key)!);
+      const inferred = await AICategorizer.inferCategories(
+        batchOrders,
+        categories,
+        promptExamples(usable, batchOrders, categories)
+      );
+      batch.forEach((key, index) => {
+        if (inferred[index]) cache[key] = inferred[index]!;
+      });
+    });
+  }
+
+  return orders.map(
+    (items, index) =>
+      results[index] ||
+      cache[cacheKey(items)] ||
+      fallbackMatch(items, categories)
+  );
+};
+
+export type { CategoryMatch, ItemCategory };
@@ -0,0 +1,111 @@
+import * as ynab from "ynab";
+
+// A memo'd Amazon transaction (or split line) and the category the user kept
+interface CategoryExample {
+  memo: string;
+  categoryId: string;
+}
+
+interface SimilarExample extends CategoryExample {
+  similarity: number; // 0 to 1
+}
+
+interface Classification {
+  categoryId: string;
+  confidence: number; // Share of the similar examples' votes, 0 to 1
+}
+
+// Words that say nothing about what was bought
+const STOP_WORDS = new Set([
+  "and",
+  "for",
+  "the",
+  "with",
+  "pack",
+  "count",
+  "refund",
+  "more",
+]);
+
+export const tokenize = (text: string): Set<string> =>
+  new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9äöüß]+/)
+      // Sizes, counts and order numbers don't help either
+      .filter(
+        (word) => word.length >= 3 && !/\d/.test(word) && !STOP_WORDS.has(word)
+      )
+  );
+
+const similarity = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared++;
+  return shared / Math.sqrt(a.size * b.size);
+};
+
+// Examples keyed by transaction ID, or "<transaction>/<subtransaction>" for
+// split lines. Null values mean the transaction no longer makes an example.
+export const examplesFromTransaction = (
+  t: ynab.TransactionDetail
+): Record<string, CategoryExample | null> => {
+  const example = (
+    memo?: string | null,
+    categoryId?: string | null
+  ): CategoryExample | null =>
+    !t.deleted && memo && categoryId && tokenize(memo).size > 0
+      ? { memo, categoryId }
+      : null;
+
+  if (t.subtransactions.length === 0)
+    return { [t.id]: example(t.memo, t.category_id) };
+  return Object.fromEntries([
+    [t.id, null],
+    ...t.subtransactions.map((sub) => [
+      `${t.id}/${sub.id}`,
+      example(sub.memo, sub.category_id),
+    ]),
+  ]);
+};
+
+export const findSimilarExamples = (
+  examples: CategoryExample[],
+  items: string[],
+  limit: number
+): SimilarExample[] => {
+  const words = tokenize(items.join(" "));
+  return examples
+    .map((example) => ({
+      ...example,
+      similarity: similarity(words, tokenize(example.memo)),
+    }))
+    .filter((example) => example.similarity > 0)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+};
+
+// Votes among the most similar examples, weighted by similarity. Returns
+// nothing when no example is close enough to go on.
+export const classify = (
+  examples: CategoryExample[],
+  items: string[],
+  limit: number,
+  minSimilarity = 0.5
+): Classification | null => {
+  const similar = findSimilarExamples(examples, items, limit);
+  if (similar.length === 0 || similar[0].similarity < minSimilarity)
+    return null;
+
+  const votes: Record<string, number> = {};
+  for (const example of similar)
+    votes[example.categoryId] =
+      (votes[example.categoryId] || 0) + example.similarity;
+  const total = Object.values(votes).reduce((sum, vote) => sum + vote, 0);
+  const [categoryId, vote] = Object.entries(votes).sort(
+    (a, b) => b[1] - a[1]
+  )[0];
+  return { categoryId, confidence: vote / total };
+};
+
+export type { CategoryExample, Classification, SimilarExample };
@@ -0,0 +1,78 @@
+import fs from "fs";
+import * as ynab from "ynab";
+import { asList, asRecord, asString, asStrings } from "./json.js";
+
+const CATEGORY_RULES_FILE = process.env.CATEGORY_RULES_FILE;
+
+interface CategoryRule {
+  name: string;
+  patterns: RegExp[];
+  category: string; // Category name or ID
+  priority: number;
+}
+
+interface RuleSet {
+  rules: CategoryRule[]; // Highest priority first
+  fallback?: string; // Category for orders neither a rule nor the model catch
+}
+
+// "/pattern/flags" is a regex, anything else a case-insensitive keyword
+const parsePattern = (pattern: string): RegExp => {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  // Without "g", which would make test() remember its last position
+  if (regex) return new RegExp(regex[1], regex[2].replace("g", ""));
+  return new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i");
+};
+
+export const parseRules = (raw: unknown): RuleSet => {
+  const file = asRecord(raw);
+  const rules: CategoryRule[] = asList(file.rules).map((entry, index) => {
+    const rule = asRecord(entry);
+    const name = asString(rule.name);
+    const category = asString(rule.category);
+    const match =
+      typeof rule.match === "string" ? [rule.match] : asStrings(rule.match);
+    if (!category || !match?.[0])
+      throw new Error(
+        `Category rule ${name || index + 1} needs "match" and "category"`
+      );
+    return {
+      name: name || `#${index + 1}`,
+      patterns: match.map(parsePattern),
+      category,
+      priority: Number(rule.priority) || 0,
+    };
+  });
+
+  // Stable, so rules with the same priority keep their order in the file
+  rules.sort((a, b) => b.priority - a.priority);
+  return { rules, fallback: asString(file.fallback) };
+};
+
+export const loadRules = (path: string): RuleSet => {
+  const ruleSet = parseRules(JSON.parse(fs.readFileSync(path, "utf8")));
+  console.log(`Loaded ${ruleSet.rules.length} category rules from ${path}`);
+  return ruleSet;
+};
+
+// The highest priority rule matching any of the item titles
+export const findRule = (
+  ruleSet: RuleSet,
+  items: string[]
+): CategoryRule | undefined =>
+  ruleSet.rules.find((rule) =>
+    rule.patterns.some((pattern) => items.some((item) => pattern.test(item)))
+  );
+
+export const findCategory = (
+  categories: ynab.Category[],
+  nameOrId: string
+): ynab.Category | undefined =>
+  categories.find((c) => c.id === nameOrId) ||
+  categories.find((c) => c.name.toLowerCase() === nameOrId.toLowerCase());
+
+export const ruleSet: RuleSet | null = CATEGORY_RULES_FILE
+  ? loadRules(CATEGORY_RULES_FILE)
+  : null;
+
+export type { CategoryRule, RuleSet };
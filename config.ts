@@ -0,0 +1,200 @@
+import fs from "fs";
+import { asList, asRecord, asString, asStrings } from "./json.js";
+
+const CONFIG_FILE = process.env.CONFIG_FILE;
+
+const listEnv = (name: string): string[] | undefined =>
+  process.env[name]
+    ?.split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+const YNAB_ACCOUNT_IDS = listEnv("YNAB_ACCOUNT_IDS") || [];
+const YNAB_PAYEE_PATTERNS = listEnv("YNAB_PAYEE_PATTERNS") || [
+  "amazon",
+  "amzn",
+];
+const YNAB_PAYEE_IDS = listEnv("YNAB_PAYEE_IDS") || [];
+const YNAB_CREATE_AFTER_DAYS = parseFloat(
+  process.env.YNAB_CREATE_AFTER_DAYS || "14"
+);
+
+interface MailboxConfig {
+  name: string;
+  user: string;
+  password: string;
+  host: string;
+  port: number;
+  tls: boolean;
+  folders: string[]; // Each folder gets its own connection
+}
+
+interface BudgetConfig {
+  name: string;
+  token: string;
+  budgetId: string;
+  stateFile: string;
+  journalFile: string; // Every write made to YNAB, to revert them
+  accountIds: string[]; // Only fetch transactions from these accounts, if any
+  payeePatterns: string[]; // Case-insensitive regexes for Amazon payee names
+  payeeIds: string[];
+  // Orders still unmatched this many days after their last date are created
+  // as transactions in this account, if one is given
+  createAccountId?: string;
+  createAfterDays: number;
+  giftCardAccountId?: string; // Tracks what orders paid with gift cards
+}
+
+// Orders from the mailbox go to the budget, optionally matched only against
+// transactions in the given accounts
+interface RouteConfig {
+  mailbox: string;
+  budget: string;
+  accountIds?: string[];
+}
+
+interface Config {
+  mailboxes: MailboxConfig[];
+  budgets: BudgetConfig[];
+  routes: RouteConfig[];
+}
+
+// The single mailbox and budget configured through environment variables
+const configFromEnv = (): Config => ({
+  mailboxes: [
+    {
+      name: "default",
+      user: process.env.IMAP_USERNAME || "",
+      password: process.env.IMAP_PASSWORD || "",
+      host: process.env.IMAP_INCOMING_HOST || "",
+      port: parseInt(process.env.IMAP_INCOMING_PORT || "993"),
+      tls: process.env.IMAP_TLS?.toLowerCase() === "true",
+      folders: listEnv("IMAP_FOLDERS") || [
+        process.env.IMAP_INBOX_NAME || "INBOX",
+      ],
+    },
+  ],
+  budgets: [
+    {
+      name: "default",
+      token: process.env.YNAB_TOKEN || "",
+      budgetId: process.env.YNAB_BUDGET_ID || "",
+      stateFile: process.env.STATE_FILE_PATH || "data/state.json",
+      journalFile: process.env.JOURNAL_FILE_PATH || "data/journal.jsonl",
+      accountIds: YNAB_ACCOUNT_IDS,
+      payeePatterns: YNAB_PAYEE_PATTERNS,
+      payeeIds: YNAB_PAYEE_IDS,
+      createAccountId: process.env.YNAB_CREATE_ACCOUNT_ID || undefined,
+      createAfterDays: YNAB_CREATE_AFTER_DAYS,
+      giftCardAccountId: process.env.YNAB_GIFT_CARD_ACCOUNT_ID || undefined,
+    },
+  ],
+  routes: [{ mailbox: "default", budget: "default" }],
+});
+
+// Replaces "${NAME}" in config values with environment variables, so secrets
+// can stay out of the config file
+const expandEnv = (value: string): string =>
+  value.replace(/\$\{(\w+)\}/g, (_, name) => process.env[name] || "");
+
+const configFromFile = (path: string): Config => {
+  const raw = asRecord(
+    JSON.parse(fs.readFileSync(path, "utf8"), (_, value) =>
+      typeof value === "string" ? expandEnv(value) : value
+    )
+  );
+
+  const mailboxes: MailboxConfig[] = asList(raw.mailboxes)
+    .map(asRecord)
+    .map((mailbox) => ({
+      name: asString(mailbox.name) || "",
+      user: asString(mailbox.user) || "",
+      password: asString(mailbox.password) || "",
+      host: asString(mailbox.host) || "",
+      port: Number(mailbox.port) || 993,
+      tls: mailbox.tls !== false,
+      folders: asStrings(mailbox.folders) || [
+        asString(mailbox.inbox) || "INBOX",
+      ],
+    }));
+  const budgets: BudgetConfig[] = asList(raw.budgets)
+    .map(asRecord)
+    .map((budget) => {
+      const name = asString(budget.name) || "";
+      return {
+        name,
+        token: asString(budget.token) || process.env.YNAB_TOKEN || "",
+        budgetId: asString(budget.budgetId) || "",
+        stateFile: asString(budget.stateFile) || `data/${name}.json`,
+        journalFile:
+          asString(budget.journalFile) || `data/${name}.journal.jsonl`,
+        accountIds: asStrings(budget.accountIds) || YNAB_ACCOUNT_IDS,
+        payeePatterns: asStrings(budget.payeePatterns) || YNAB_PAYEE_PATTERNS,
+        payeeIds: asStrings(budget.payeeIds) || YNAB_PAYEE_IDS,
+        createAccountId: asString(budget.createAccountId),
+        // Anything but a number fails validation
+        createAfterDays:
+          budget.createAfterDays === undefined
+            ? YNAB_CREATE_AFTER_DAYS
+            : typeof budget.createAfterDays === "number"
+            ? budget.createAfterDays
+            : NaN,
+        giftCardAccountId: asString(budget.giftCardAccountId),
+      };
+    });
+  const routes: RouteConfig[] = asList(raw.routes)
+    .map(asRecord)
+    .map((route) => ({
+      mailbox: asString(route.mailbox) || "",
+      budget: asString(route.budget) || "",
+      accountIds: asStrings(route.accountIds),
+    }));
+
+  return { mailboxes, budgets, routes };
+};
+
+const validate = (config: Config, source: string): void => {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid configuration in ${source}: ${message}`);
+  };
+
+  for (const list of [config.mailboxes, config.budgets]) {
+    const names = list.map((entry) => entry.name);
+    if (names.some((name) => !name)) fail("every entry needs a name");
+    const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+    if (duplicate) fail(`"${duplicate}" is used more than once`);
+  }
+
+  for (const mailbox of config.mailboxes) {
+    if (mailbox.folders.length === 0)
+      fail(`mailbox "${mailbox.name}" has no folders`);
+  }
+
+  if (config.routes.length === 0) fail("no routes are configured");
+  for (const route of config.routes) {
+    if (!config.mailboxes.some((m) => m.name === route.mailbox))
+      fail(`route refers to unknown mailbox "${route.mailbox}"`);
+    if (!config.budgets.some((b) => b.name === route.budget))
+      fail(`route refers to unknown budget "${route.budget}"`);
+  }
+  for (const budget of config.budgets) {
+    if (!budget.token) fail(`budget "${budget.name}" has no token`);
+    for (const pattern of budget.payeePatterns) {
+      try {
+        new RegExp(pattern);
+      } catch {
+        fail(`budget "${budget.name}" has invalid payee pattern "${pattern}"`);
+      }
+    }
+    if (!(budget.createAfterDays >= 0))
+      fail(`budget "${budget.name}" has invalid createAfterDays`);
+  }
+};
+
+export const loadConfig = (): Config => {
+  const config = CONFIG_FILE ? configFromFile(CONFIG_FILE) : configFromEnv();
+  validate(config, CONFIG_FILE || "environment variables");
+  return config;
+};
+
+export type { BudgetConfig, Config, MailboxConfig, RouteConfig };
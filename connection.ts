@@ -0,0 +1,158 @@
+import IMAP from "node-imap";
+import YNAB from "./ynab.js";
+import { historicalSearch } from "./mail.js";
+import type { MailboxConfig } from "./config.js";
+
+const RECONNECT_INITIAL_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 5 * 60 * 1000;
+
+// Keeps one mailbox folder connected, reconnecting with exponential backoff when the
+// connection drops. Each (re)connect resumes after the last seen UID, so mail
+// that arrived while disconnected is picked up too.
+export default class MailboxConnection {
+  config: MailboxConfig;
+  folder: string;
+  budgets: YNAB[];
+  watch: boolean;
+  imap: IMAP | null = null;
+  box: IMAP.Box | null = null; // Set while the folder is open
+  reconnectDelay = RECONNECT_INITIAL_DELAY;
+  reconnectTimer: NodeJS.Timeout | null = null;
+  scanning: Promise<void> = Promise.resolve();
+  stopped = false;
+
+  // Without `watch`, the connection is closed after the first scan
+  constructor(
+    config: MailboxConfig,
+    folder: string,
+    budgets: YNAB[],
+    watch = true
+  ) {
+    this.config = config;
+    this.folder = folder;
+    this.budgets = budgets;
+    this.watch = watch;
+  }
+
+  // Resolves once the mailbox has been scanned for the first time. A watched
+  // mailbox also resolves when the first attempt fails, so one unreachable
+  // mailbox doesn't hold up the others, and keeps reconnecting meanwhile.
+  start = (): Promise<void> =>
+    new Promise((resolve, reject) => this.connect(resolve, reject));
+
+  stop = (): void => {
+    this.stopped = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.imap?.end();
+  };
+
+  connect = (onScanned?: () => void, onFailed?: (err: Error) => void): void => {
+    const name = `${this.config.name}/${this.folder}`;
+    const imap = new IMAP({
+      user: this.config.user,
+      password: this.config.password,
+      host: this.config.host,
+      port: this.config.port,
+      tls: this.config.tls,
+      keepalive: true, // IDLE, with a NOOP every few minutes to detect drops
+    });
+    this.imap = imap;
+
+    // Only a one-off scan gives up; a watched mailbox keeps reconnecting
+    const fail = (err: Error): void => {
+      console.error(err);
+      if (this.watch) {
+        onScanned?.();
+        onScanned = undefined;
+        return;
+      }
+      this.stopped = true;
+      onFailed?.(err);
+    };
+
+    imap.once("ready", () => {
+      console.log(`Successfully connected to mail server for "${name}"!`);
+      console.log("Opening mailbox...");
+      imap.openBox(this.folder, true, async (err, box) => {
+        if (err) {
+          fail(err);
+          imap.end();
+          return;
+        }
+        this.box = box;
+
+        if (this.watch) {
+          const catchUp = () =>
+            this.scan(imap, box).catch((e) => {
+              console.error(e);
+              imap.end();
+            });
+          imap.on("mail", (newEmailCount: number) => {
+            console.log(`${newEmailCount} new email(s) in "${name}"`);
+            catchUp();
+          });
+          // The box was replaced on the server, so rescan it from scratch
+          imap.on("uidvalidity", catchUp);
+        }
+
+        try {
+          await this.scan(imap, box);
+        } catch (e) {
+          fail(e as Error);
+          imap.end();
+          return;
+        }
+        this.reconnectDelay = RECONNECT_INITIAL_DELAY;
+        onScanned?.();
+        onScanned = undefined;
+
+        if (this.watch) console.log(`Listening to "${name}" for new emails...`);
+        else this.stop();
+      });
+    });
+
+    imap.on("error", (err: Error) => {
+      console.error(`Mail server error for "${name}"`);
+      fail(err);
+    });
+
+    imap.once("close", () => {
+      this.box = null;
+      if (this.stopped) return;
+      console.log(
+        `Mail server connection for "${name}" closed, reconnecting in ${
+          this.reconnectDelay / 1000
+        }s...`
+      );
+      this.reconnectTimer = setTimeout(
+        () => this.connect(onScanned, onFailed),
+        this.reconnectDelay
+      );
+      this.reconnectDelay = Math.min(
+        this.reconnectDelay * 2,
+        RECONNECT_MAX_DELAY
+      );
+    });
+
+    console.log(`Connecting to mail server for "${name}"...`);
+    imap.connect();
+  };
+
+  // Checks the folder for new emails and matches again, e.g. when asked to
+  // from the dashboard
+  rescan = (): Promise<void> => {
+    if (!this.imap || !this.box)
+      return Promise.reject(
+        new Error(`"${this.config.name}/${this.folder}" is not connected`)
+      );
+    return this.scan(this.imap, this.box);
+  };
+
+  // Scans run one at a time, so bursts of new mail are read once
+  scan = (imap: IMAP, box: IMAP.Box): Promise<void> => {
+    this.scanning = this.scanning
+      .catch(() => {})
+      .then(() => historicalSearch(imap, box, this.config, this.budgets));
+    return this.scanning;
+  };
+}
@@ -0,0 +1,195 @@
+// A single page on top of the HTTP API, for checking on the sync and fixing
+// mismatches without reading logs
+export const DASHBOARD_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Amazon YNAB Sync</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 1.5rem; color: #222; }
+  h1 { font-size: 1.4rem; }
+  h2 { font-size: 1.1rem; margin-top: 2rem; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+  th, td { text-align: left; padding: 0.35rem 0.5rem; border-bottom: 1px solid #ddd; vertical-align: top; }
+  td.amount { text-align: right; white-space: nowrap; }
+  .status { font-weight: 600; }
+  .pending { color: #b26a00; }
+  .ambiguous { color: #b00020; }
+  .partial { color: #8a6d00; }
+  .matched { color: #2e7d32; }
+  .canceled, .muted { color: #888; }
+  #message { min-height: 1.4rem; color: #b00020; }
+  button, select { font: inherit; }
+</style>
+</head>
+<body>
+<h1>Amazon YNAB Sync</h1>
+<p>
+  Budget <select id="budget"></select>
+  <button id="rescan">Check email now</button>
+  <span id="summary" class="muted"></span>
+</p>
+<p id="message"></p>
+
+<h2>Link an order by hand</h2>
+<p>
+  <select id="link-order"></select>
+  <select id="link-transaction"></select>
+  <button id="link">Link</button>
+</p>
+
+<h2>Orders</h2>
+<table id="orders"><thead><tr>
+  <th>Date</th><th>Order</th><th>Items</th><th>Amount</th><th>Status</th>
+</tr></thead><tbody></tbody></table>
+
+<h2>Amazon transactions</h2>
+<table id="transactions"><thead><tr>
+  <th>Date</th><th>Payee</th><th>Account</th><th>Amount</th><th>Memo</th><th>Category</th><th></th>
+</tr></thead><tbody></tbody></table>
+
+<h2>Recent changes</h2>
+<table id="updates"><thead><tr><th>Time</th><th>Change</th></tr></thead><tbody></tbody></table>
+
+<script>
+const budgetSelect = document.getElementById("budget");
+const message = document.getElementById("message");
+
+const money = (milliunits) => (milliunits / 1000).toFixed(2);
+
+const api = async (method, path, body) => {
+  const response = await fetch(path, {
+    method,
+    headers: { "content-type": "application/json" },
+    body: body && JSON.stringify(body),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error);
+  return data;
+};
+
+const budgetPath = () =>
+  "/api/budgets/" + encodeURIComponent(budgetSelect.value);
+
+const cell = (row, text, className) => {
+  const td = row.insertCell();
+  td.textContent = text == null ? "" : text;
+  if (className) td.className = className;
+  return td;
+};
+
+const button = (td, label, action) => {
+  const b = document.createElement("button");
+  b.textContent = label;
+  b.onclick = () => run(action);
+  td.appendChild(b);
+};
+
+const option = (select, value, label) => {
+  const o = document.createElement("option");
+  o.value = value;
+  o.textContent = label;
+  select.appendChild(o);
+};
+
+const run = async (action) => {
+  message.textContent = "Working...";
+  try {
+    await action();
+    message.textContent = "";
+  } catch (e) {
+    message.textContent = e.message;
+  }
+  await load();
+};
+
+const load = async () => {
+  const [budgets, orders, transactions, updates] = await Promise.all([
+    api("GET", "/api/budgets"),
+    api("GET", budgetPath() + "/orders"),
+    api("GET", budgetPath() + "/transactions"),
+    api("GET", budgetPath() + "/updates"),
+  ]);
+
+  const budget = budgets.find((b) => b.name === budgetSelect.value);
+  document.getElementById("summary").textContent =
+    budget.pendingOrders + " of " + budget.orders + " orders waiting for a charge, " +
+    budget.transactions + " Amazon transactions";
+
+  const ordersBody = document.querySelector("#orders tbody");
+  ordersBody.replaceChildren();
+  const linkOrder = document.getElementById("link-order");
+  linkOrder.replaceChildren();
+  option(linkOrder, "", "Order...");
+  for (const order of orders) {
+    const row = ordersBody.insertRow();
+    cell(row, order.date.split("T")[0]);
+    const number = cell(row, "");
+    if (order.orderLink) {
+      const a = document.createElement("a");
+      a.href = order.orderLink;
+      a.textContent = order.orderNumber || "details";
+      number.appendChild(a);
+    } else number.textContent = order.orderNumber || "";
+    cell(row, (order.isRefund ? "Refund: " : "") + order.items.join(", "));
+    cell(row, money(order.amount), "amount");
+    cell(row, order.status, "status " + order.status);
+    if (["pending", "partial", "ambiguous"].includes(order.status))
+      option(linkOrder, order.id,
+        order.date.split("T")[0] + " " + money(order.amount) + " " + order.items.join(", ").slice(0, 60));
+  }
+
+  const transactionsBody = document.querySelector("#transactions tbody");
+  transactionsBody.replaceChildren();
+  const linkTransaction = document.getElementById("link-transaction");
+  linkTransaction.replaceChildren();
+  option(linkTransaction, "", "Transaction...");
+  for (const t of transactions) {
+    const row = transactionsBody.insertRow();
+    cell(row, t.date);
+    cell(row, t.payee);
+    cell(row, t.account);
+    cell(row, money(t.amount), "amount");
+    cell(row, t.memo);
+    cell(row, t.category);
+    const actions = cell(row, "");
+    if (t.orderId) {
+      button(actions, "Unlink", () =>
+        api("DELETE", budgetPath() + "/links/" + encodeURIComponent(t.id)));
+      button(actions, "Categorize again", () =>
+        api("POST", budgetPath() + "/transactions/" + encodeURIComponent(t.id) + "/recategorize"));
+    } else {
+      option(linkTransaction, t.id, t.date + " " + money(t.amount) + " " + (t.payee || ""));
+    }
+  }
+
+  const updatesBody = document.querySelector("#updates tbody");
+  updatesBody.replaceChildren();
+  for (const update of updates) {
+    const row = updatesBody.insertRow();
+    cell(row, new Date(update.at).toLocaleString());
+    cell(row, update.message);
+  }
+};
+
+document.getElementById("link").onclick = () =>
+  run(() =>
+    api("POST", budgetPath() + "/links", {
+      orderId: document.getElementById("link-order").value,
+      transactionId: document.getElementById("link-transaction").value,
+    })
+  );
+document.getElementById("rescan").onclick = () =>
+  run(() => api("POST", "/api/rescan"));
+budgetSelect.onchange = () => run(async () => {});
+
+(async () => {
+  for (const budget of await api("GET", "/api/budgets"))
+    option(budgetSelect, budget.name, budget.name);
+  await load();
+})();
+</script>
+</body>
+</html>
+`;
@@ -0,0 +1,35 @@
+import * as ynab from "ynab";
+
+export const currencyFormat = (
+  amt: number,
+  format: ynab.CurrencyFormat | null // A budget's format, or null for USD
+): string => {
+  if (!format)
+    return amt.toLocaleString("en-US", {
+      style: "currency",
+      currency: "USD",
+    });
+
+  const [whole, fraction] = Math.abs(amt)
+    .toFixed(format.decimal_digits)
+    .split(".");
+  const grouped = whole.replace(
+    /\B(?=(\d{3})+(?!\d))/g,
+    format.group_separator
+  );
+  const number = fraction
+    ? `${grouped}${format.decimal_separator}${fraction}`
+    : grouped;
+  const symbol = format.display_symbol ? format.currency_symbol : "";
+  const formatted = format.symbol_first
+    ? `${symbol}${number}`
+    : `${number}${symbol}`;
+  return amt < 0 ? `-${formatted}` : formatted;
+};
+
+export const dateFormat = (date: Date): string =>
+  new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
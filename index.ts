@@ -1,70 +1,62 @@
 import "dotenv/config";
-import IMAP from "node-imap";
 import YNAB from "./ynab.js";
-import { historicalSearch, watchInbox } from "./mail.js";
-import { Order } from "./ynab.js";
+import MailboxConnection from "./connection.js";
+import Store from "./store.js";
+import { loadConfig } from "./config.js";
+import { startServer } from "./server.js";
 
-const INBOX_NAME = process.env.IMAP_INBOX_NAME || "INBOX";
-
-export const dollarFormat = (amt: number): string =>
-  amt.toLocaleString("en-US", {
-    style: "currency",
-    currency: "USD",
-  });
-
-export const dateFormat = (date: Date): string =>
-  new Intl.DateTimeFormat("en-US", {
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  }).format(date);
+const DRY_RUN = process.env.DRY_RUN?.toLowerCase() === "true";
 
 (async () => {
-  const ynab = new YNAB();
-  await ynab.init();
-
-  const imap = new IMAP({
-    user: process.env.IMAP_USERNAME || "",
-    password: process.env.IMAP_PASSWORD || "",
-    host: process.env.IMAP_INCOMING_HOST || "",
-    port: parseInt(process.env.IMAP_INCOMING_PORT || "993"),
-    tls: process.env.IMAP_TLS?.toLowerCase() === "true",
-  });
-
-  imap.once("ready", () => {
-    console.log("Successfully connected to mail server!");
-    console.log("Opening mailbox...");
-    imap.openBox(INBOX_NAME, true, async (err, box) => {
-      if (err) throw err;
-
-      const orders: Order[] = [];
-
-      await historicalSearch(imap, ynab, box, orders);
-
-      console.log("Listening to mailbox for new emails...");
-
-      watchInbox(imap, ynab, box, orders);
-
-      setInterval(async () => {
-        try {
-          await ynab.fetchTransactions();
-          await ynab.matchAndUpdate(orders);
-        } catch (e) {
-          console.error(e);
-        }
-      }, 60000);
-    });
+  if (DRY_RUN)
+    console.log("Dry run: matches will be reported, not written to YNAB");
+
+  const config = loadConfig();
+
+  const budgets: Record<string, YNAB> = {};
+  for (const budgetConfig of config.budgets) {
+    const store = new Store(budgetConfig.stateFile, DRY_RUN);
+    store.load();
+
+    const ynab = new YNAB(budgetConfig, store, DRY_RUN);
+    await ynab.init();
+    budgets[budgetConfig.name] = ynab;
+  }
+
+  for (const route of config.routes) budgets[route.budget].addRoute(route);
+
+  const connections = config.mailboxes.flatMap((mailbox) => {
+    const mailboxBudgets = config.routes
+      .filter((route) => route.mailbox === mailbox.name)
+      .map((route) => budgets[route.budget])
+      .filter((ynab, i, all) => all.indexOf(ynab) === i);
+    return mailbox.folders.map(
+      (folder) =>
+        new MailboxConnection(mailbox, folder, mailboxBudgets, !DRY_RUN)
+    );
   });
-
-  imap.once("error", (err) => {
-    throw err;
-  });
-
-  imap.once("end", (err) => {
-    console.log("Mail server connection closed");
-    process.exit(1);
+  await Promise.all(connections.map((connection) => connection.start()));
+
+  if (DRY_RUN) {
+    console.log("Dry run finished");
+    process.exit(0);
+  }
+
+  startServer({
+    budgets,
+    rescan: async () => {
+      await Promise.all(connections.map((connection) => connection.rescan()));
+    },
   });
 
-  console.log("Connecting to mail server...");
-  imap.connect();
+  for (const ynab of Object.values(budgets)) {
+    setInterval(async () => {
+      try {
+        await ynab.fetchTransactions();
+        await ynab.matchAndUpdate(ynab.store.getOrders());
+      } catch (e) {
+        console.error(e);
+      }
+    }, 60000);
+  }
 })();
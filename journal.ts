@@ -0,0 +1,179 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import * as ynab from "ynab";
+
+// The fields a write can change, to restore them or to tell whether the user
+// changed them since
+interface TransactionSnapshot {
+  memo: string | null;
+  category_id: string | null;
+  approved: boolean;
+  flag_color: ynab.TransactionFlagColor | null;
+  subtransactions: {
+    amount: number;
+    memo: string | null;
+    category_id: string | null;
+  }[];
+}
+
+interface JournalEntry {
+  id: string;
+  at: string; // ISO timestamp
+  runId: string; // Shared by the writes of one sync, or one manual action
+  action: "update" | "create" | "unlink" | "revert";
+  transactionId: string;
+  orderId?: string;
+  before: TransactionSnapshot | null; // Null when the write created it
+  after: TransactionSnapshot | null; // Null when the write deleted it
+  reverts?: string[]; // IDs of the entries a revert undid
+}
+
+// Journal entries to undo: one transaction, a time range, or a run
+interface RevertSelection {
+  transactionId?: string;
+  since?: Date;
+  until?: Date; // Exclusive
+  runId?: string;
+}
+
+interface RevertPlan {
+  transactionId: string;
+  orderId?: string;
+  original: TransactionSnapshot | null; // Null to delete a created transaction
+  expected: TransactionSnapshot | null; // What the last write left behind
+  entryIds: string[];
+}
+
+interface RunSummary {
+  runId: string;
+  at: string;
+  writes: number;
+}
+
+export const snapshot = (t: ynab.TransactionDetail): TransactionSnapshot => ({
+  memo: t.memo || null,
+  category_id: t.category_id || null,
+  approved: t.approved,
+  flag_color: t.flag_color || null,
+  subtransactions: t.subtransactions
+    .filter((sub) => !sub.deleted)
+    .map((sub) => ({
+      amount: sub.amount,
+      memo: sub.memo || null,
+      category_id: sub.category_id || null,
+    })),
+});
+
+export const sameSnapshot = (
+  a: TransactionSnapshot | null,
+  b: TransactionSnapshot | null
+): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+// Sorts by time, e.g. "20241207T094112-a3f9"
+export const newRunId = (): string =>
+  `${new Date().toISOString().replace(/[-:]/g, "").slice(0, 15)}-${crypto
+    .randomBytes(2)
+    .toString("hex")}`;
+
+const isWrite = (entry: JournalEntry): boolean =>
+  entry.action === "update" || entry.action === "create";
+
+// Groups the selected writes by transaction. A transaction written again
+// after the selection is left alone, since undoing the earlier write would
+// undo the later one too.
+export const planReverts = (
+  entries: JournalEntry[],
+  selection: RevertSelection
+): RevertPlan[] => {
+  const reverted = new Set(entries.flatMap((entry) => entry.reverts || []));
+  const selected = entries.filter(
+    (entry) =>
+      isWrite(entry) &&
+      !reverted.has(entry.id) &&
+      (!selection.transactionId ||
+        entry.transactionId === selection.transactionId) &&
+      (!selection.runId || entry.runId === selection.runId) &&
+      (!selection.since || new Date(entry.at) >= selection.since) &&
+      (!selection.until || new Date(entry.at) < selection.until)
+  );
+
+  const plans: RevertPlan[] = [];
+  for (const transactionId of new Set(selected.map((e) => e.transactionId))) {
+    const writes = selected.filter((e) => e.transactionId === transactionId);
+    const last = entries
+      .filter((e) => e.transactionId === transactionId)
+      .pop()!;
+    if (!writes.includes(last)) {
+      console.log(
+        `Skipping transaction ${transactionId}, it was written again later`
+      );
+      continue;
+    }
+    plans.push({
+      transactionId,
+      orderId: writes[0].orderId,
+      original: writes[0].before,
+      expected: last.after,
+      entryIds: writes.map((e) => e.id),
+    });
+  }
+  return plans;
+};
+
+export const listRuns = (entries: JournalEntry[]): RunSummary[] => {
+  const runs = new Map<string, RunSummary>();
+  for (const entry of entries.filter(isWrite)) {
+    const run = runs.get(entry.runId);
+    if (run) run.writes++;
+    else runs.set(entry.runId, { runId: entry.runId, at: entry.at, writes: 1 });
+  }
+  return [...runs.values()];
+};
+
+// An append-only file with one JSON entry per line, so a crash loses at most
+// the entry being written
+export default class Journal {
+  filePath: string;
+  readOnly: boolean;
+
+  // A read-only journal reads entries but never adds any
+  constructor(filePath: string, readOnly = false) {
+    this.filePath = filePath;
+    this.readOnly = readOnly;
+  }
+
+  append = (entry: Omit<JournalEntry, "id" | "at">): void => {
+    if (this.readOnly) return;
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const line: JournalEntry = {
+      id: crypto.randomUUID(),
+      at: new Date().toISOString(),
+      ...entry,
+    };
+    fs.appendFileSync(this.filePath, `${JSON.stringify(line)}\n`);
+  };
+
+  read = (): JournalEntry[] => {
+    if (!fs.existsSync(this.filePath)) return [];
+    return fs
+      .readFileSync(this.filePath, "utf8")
+      .split("\n")
+      .flatMap((line) => {
+        try {
+          return line ? [JSON.parse(line)] : [];
+        } catch {
+          return []; // Cut short by a crash
+        }
+      });
+  };
+}
+
+export type {
+  JournalEntry,
+  RevertPlan,
+  RevertSelection,
+  RunSummary,
+  TransactionSnapshot,
+};
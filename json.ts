@@ -0,0 +1,25 @@
+// Narrowing for parsed JSON, such as config files and model answers, whose
+// shape isn't known until it's checked
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// The fields of an object, or none for anything else
+export const asRecord = (value: unknown): Record<string, unknown> =>
+  isRecord(value) ? value : {};
+
+export const asList = (value: unknown): unknown[] =>
+  Array.isArray(value) ? value : [];
+
+export const asString = (value: unknown): string | undefined =>
+  typeof value === "string" ? value : undefined;
+
+// A list of strings, or undefined if anything else is in it
+export const asStrings = (value: unknown): string[] | undefined => {
+  const strings = asList(value).filter(
+    (item): item is string => typeof item === "string"
+  );
+  return Array.isArray(value) && strings.length === value.length
+    ? strings
+    : undefined;
+};
@@ -0,0 +1,189 @@
+import OpenAI from "openai";
+import { asList, asRecord, asString } from "./json.js";
+
+interface CompletionRequest {
+  system: string;
+  prompt: string;
+  maxTokens?: number; // Room for the answer, for APIs that need a limit
+}
+
+// A language model that answers prompts with JSON
+interface LLMProvider {
+  name: string; // Shown in logs, e.g. "openai gpt-4o-mini"
+  complete: (request: CompletionRequest) => Promise<string>;
+}
+
+interface ProviderOptions {
+  model: string;
+  apiKey: string;
+  baseURL?: string;
+  timeout: number; // Milliseconds per attempt
+  maxRetries: number;
+}
+
+// Thrown for responses worth retrying, after `retryAfter` milliseconds if
+// the server said how long to wait
+export class RetryableError extends Error {
+  retryAfter?: number;
+
+  constructor(message: string, retryAfter?: number) {
+    super(message);
+    this.retryAfter = retryAfter;
+  }
+}
+
+const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+// Retries timeouts, network errors and RetryableErrors with exponential
+// backoff, waiting longer when a rate limit asks for it
+export const withRetries = async <T>(
+  attempt: () => Promise<T>,
+  maxRetries: number,
+  baseDelay = 1000
+): Promise<T> => {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await attempt();
+    } catch (e) {
+      const retryable =
+        e instanceof RetryableError ||
+        (e as Error).name === "TimeoutError" ||
+        e instanceof TypeError; // fetch's network errors
+      if (!retryable || retry >= maxRetries) throw e;
+
+      const delay = Math.max(
+        baseDelay * 2 ** retry,
+        (e as RetryableError).retryAfter || 0
+      );
+      console.log(
+        `AI request failed (${(e as Error).message}), retrying in ${
+          delay / 1000
+        }s...`
+      );
+      await sleep(delay);
+    }
+  }
+};
+
+// Like Promise.all over tasks.map(run), with at most `limit` running at once
+export const mapWithConcurrency = async <T, R>(
+  tasks: T[],
+  limit: number,
+  run: (task: T) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(tasks.length);
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < tasks.length) {
+      const index = next++;
+      results[index] = await run(tasks[index]);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(limit, 1), tasks.length) }, worker)
+  );
+  return results;
+};
+
+// OpenAI, or any server with an OpenAI-compatible API (Ollama, llama.cpp
+// server, LM Studio) when a base URL is given. The client retries rate
+// limits and timeouts itself.
+export const openAIProvider = (options: ProviderOptions): LLMProvider => {
+  const client = new OpenAI({
+    apiKey: options.apiKey || "not-needed", // Local servers take any key
+    baseURL: options.baseURL,
+    timeout: options.timeout,
+    maxRetries: options.maxRetries,
+  });
+
+  return {
+    name: `${options.baseURL || "openai"} ${options.model}`,
+    complete: async ({ system, prompt }) => {
+      const response = await client.chat.completions.create({
+        model: options.model,
+        messages: [
+          { role: "system", content: system },
+          { role: "user", content: prompt },
+        ],
+        temperature: 0.3,
+        response_format: { type: "json_object" },
+      });
+      return response.choices[0].message.content || "";
+    },
+  };
+};
+
+// The most output tokens asked of Anthropic models, which all allow this many
+const ANTHROPIC_MAX_TOKENS = 8192;
+
+export const anthropicProvider = (options: ProviderOptions): LLMProvider => {
+  const baseURL = options.baseURL || "https://api.anthropic.com/v1";
+
+  const request = async (
+    { system, prompt }: CompletionRequest,
+    maxTokens: number
+  ): Promise<{ text: string; truncated: boolean }> => {
+    const response = await fetch(`${baseURL}/messages`, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "x-api-key": options.apiKey,
+        "anthropic-version": "2023-06-01",
+      },
+      body: JSON.stringify({
+        model: options.model,
+        max_tokens: maxTokens,
+        temperature: 0.3,
+        system,
+        messages: [{ role: "user", content: prompt }],
+      }),
+      signal: AbortSignal.timeout(options.timeout),
+    });
+
+    if (response.status === 429 || response.status >= 500) {
+      const retryAfter = parseFloat(response.headers.get("retry-after") || "");
+      throw new RetryableError(
+        `Anthropic API returned ${response.status}`,
+        isNaN(retryAfter) ? undefined : retryAfter * 1000
+      );
+    }
+    if (!response.ok)
+      throw new Error(
+        `Anthropic API returned ${response.status}: ${await response.text()}`
+      );
+
+    const data = asRecord(await response.json());
+    const block = asList(data.content)
+      .map(asRecord)
+      .find((b) => b.type === "text");
+    return {
+      text: asString(block?.text) || "",
+      truncated: data.stop_reason === "max_tokens",
+    };
+  };
+
+  return {
+    name: `anthropic ${options.model}`,
+    complete: (completion) => {
+      let maxTokens = Math.min(
+        completion.maxTokens || 1024,
+        ANTHROPIC_MAX_TOKENS
+      );
+      return withRetries(async () => {
+        const { text, truncated } = await request(completion, maxTokens);
+        // A cut off answer is partial JSON, so ask again with more room
+        if (truncated && maxTokens >= ANTHROPIC_MAX_TOKENS)
+          throw new Error("Anthropic answer doesn't fit in max_tokens");
+        if (truncated) {
+          maxTokens = Math.min(maxTokens * 2, ANTHROPIC_MAX_TOKENS);
+          throw new RetryableError("Anthropic answer hit max_tokens");
+        }
+        // Claude may wrap the JSON in prose or a code block
+        return text.match(/\{[\s\S]*\}/)?.[0] || "";
+      }, options.maxRetries);
+    },
+  };
+};
+
+export type { CompletionRequest, LLMProvider, ProviderOptions };
@@ -1,135 +1,149 @@
 import IMAP from "node-imap";
-import * as cheerio from "cheerio";
-import quotedPrintable from "quoted-printable";
-import { dateFormat, dollarFormat } from "./index.js";
-import YNAB, { Order } from "./ynab.js";
-
-const HISTORICAL_SEARCH_NUM_EMAILS = parseInt(
-  process.env.HISTORICAL_SEARCH_NUM_EMAILS || "500"
+import type { CurrencyFormat } from "ynab";
+import { currencyFormat, dateFormat } from "./format.js";
+import YNAB, { Order, OrderItem } from "./ynab.js";
+import Store from "./store.js";
+import type { MailboxConfig } from "./config.js";
+import {
+  decodePart,
+  findAttachedMessages,
+  findBodyPart,
+  isStruct,
+  MimePart,
+} from "./mime.js";
+import {
+  ParsedItem,
+  parseOrderEmail,
+  parseOrderNumber,
+  parseRefundEmail,
+} from "./parser.js";
+
+const HISTORICAL_SEARCH_DAYS = parseInt(
+  process.env.HISTORICAL_SEARCH_DAYS || "30"
 );
 
+// Emails fetched per request when reading matched emails
+const FETCH_BATCH_SIZE = 50;
+
+const HEADER_FIELDS = "HEADER.FIELDS (FROM SUBJECT MESSAGE-ID)";
+
 interface Email {
   from: string;
   subject: string;
+  messageId?: string;
   body: string;
   attributes: IMAP.ImapMessageAttributes;
 }
 
-interface EmailHeader {
-  from: string;
-  subject: string;
-  attributes: IMAP.ImapMessageAttributes;
-  body?: string;
-}
+// Storefronts to accept emails from, e.g. "amazon.com,amazon.ca,amazon.co.uk"
+const AMAZON_SENDER_DOMAINS = (
+  process.env.AMAZON_SENDER_DOMAINS || "amazon.com"
+)
+  .split(",")
+  .map((domain) => domain.trim().toLowerCase())
+  .filter((domain) => domain.length > 0);
 
-const isAmazonEmail = ({ from }: Email | EmailHeader): boolean =>
-  from.includes("auto-confirm@amazon.com");
+type EmailType = "order" | "shipment" | "refund" | "cancellation";
 
-const scanEmail = (email: Email): Order | undefined => {
-  const { subject, body, attributes } = email;
+// The storefront domain of an Amazon sender address, if it is one we accept
+const senderDomain = (from: string): string | undefined => {
+  const address = (from.match(/<([^>]+)>/)?.[1] || from).trim().toLowerCase();
+  return AMAZON_SENDER_DOMAINS.find((domain) => address.endsWith(`@${domain}`));
+};
 
-  if (!isAmazonEmail(email)) {
+const getEmailType = ({ from, subject }: Email): EmailType | undefined => {
+  const domain = senderDomain(from);
+  if (!domain) return;
+  if (from.toLowerCase().includes(`auto-confirm@${domain}`)) return "order";
+  if (/refund|erstattung/i.test(subject)) return "refund";
+  if (/cancel|storniert/i.test(subject)) return "cancellation";
+  if (/shipped|dispatched|versandt|verschickt/i.test(subject))
+    return "shipment";
+};
+
+const emailDate = (attributes: IMAP.ImapMessageAttributes): Date =>
+  new Date(new Date(attributes.date).setHours(0, 0, 0, 0));
+
+// Item prices are stored like order amounts: negative milliunits
+const toOrderItem = (item: ParsedItem): OrderItem => ({
+  title: item.title,
+  quantity: item.quantity,
+  amount: item.price === undefined ? undefined : -Math.round(item.price * 1000),
+});
+
+// Message-IDs are unique across mailboxes, UIDs only within one
+const orderId = (email: Email, mailbox: string): string =>
+  email.messageId ||
+  (mailbox === "default"
+    ? `uid:${email.attributes.uid}`
+    : `${mailbox}:uid:${email.attributes.uid}`);
+
+const scanEmail = (
+  email: Email,
+  mailbox: string,
+  format: CurrencyFormat | null
+): Order | undefined => {
+  const { subject, messageId, body, attributes } = email;
+
+  if (getEmailType(email) !== "order") {
     console.log(
       "Ignoring... not an Amazon order email (subject or body mismatch)"
     );
     return;
   }
 
-  // Mail forwarding sometimes messes with ID/class attributes,
-  // so cleaning up the attributes prefixed with "x_"
-  const $ = cheerio.load(body.replace(/"x_/g, '"'));
-
   try {
-    // Try to find the total amount - look for "Total" label and get adjacent cell value
-    let amount = 0;
-
-    // Method 1: Look for table with "Total" text and extract the dollar amount from the adjacent cell
-    $("table").each((_, table) => {
-      const $table = $(table);
-      const text = $table.text();
-      if (text.includes("Total")) {
-        // Look for dollar amounts in this table
-        const match = text.match(/\$(\d+\.\d{2})/);
-        if (match) {
-          amount = parseFloat(match[1]);
-          return false; // break out of each loop
-        }
-      }
-    });
-
-    // Method 2: Fallback to old selector if Method 1 didn't work
-    if (amount === 0) {
-      const costText = $('table[id$="costBreakdownRight"] td').text().trim();
-      if (costText && costText.startsWith("$")) {
-        amount = parseFloat(costText.slice(1));
-      }
-    }
-
-    if (amount === 0) return;
-
-    const items: string[] = [];
-
-    // Method 1: Look for links containing product names (more reliable for new format)
-    $("a").each((_, link) => {
-      const $link = $(link);
-      const href = $link.attr("href") || "";
-      const text = $link.text().trim();
-
-      // If link contains /dp/ or mentions product, and has meaningful text
-      if (
-        (href.includes("/dp/") || href.includes("asin")) &&
-        text.length > 0 &&
-        text.length < 200
-      ) {
-        // Filter out navigation links and common UI text
-        const excludePatterns = [
-          "View or edit order",
-          "Your Orders",
-          "Your Account",
-          "Buy Again",
-          "Track package",
-        ];
-        if (!excludePatterns.some((pattern) => text.includes(pattern))) {
-          // Clean up the title
-          let title = text;
-          if (title.endsWith("...")) {
-            title = title.split(" ").slice(0, -1).join(" ");
-            if (title.endsWith(",")) title = title.slice(0, -1);
-            title += "..";
-          }
-          items.push(title);
-        }
-      }
-    });
-
-    // Method 2: Fallback to old selector for item details table
-    if (items.length === 0) {
-      const itemRows = $('table[id$="itemDetails"] tr').toArray();
-      for (const itemRow of itemRows) {
-        let title = $(itemRow).find("font").text().trim();
-        if (title.endsWith("...")) {
-          title = title.split(" ").slice(0, -1).join(" ");
-          if (title.endsWith(",")) title = title.slice(0, -1);
-          title += "..";
-        }
-        if (title.length === 0) continue;
-        items.push(title);
-      }
-    }
-
-    if (items.length === 0) return;
-
-    const date = new Date(attributes.date.setHours(0, 0, 0, 0));
+    const parsed = parseOrderEmail(body, subject);
+    if (!parsed) return;
+
+    const date = parsed.orderDate || emailDate(attributes);
+    const items = parsed.items.map(toOrderItem);
+
+    const charged = parsed.charged ?? parsed.grandTotal;
+    const balances = [
+      ["gift card", parsed.giftCard],
+      ["points", parsed.points],
+      ["promo credits", parsed.promoCredits],
+    ]
+      .filter(([, amount]) => amount)
+      .map(
+        ([name, amount]) =>
+          `${currencyFormat(amount as number, format)} ${name}`
+      );
 
     console.info(
-      `Found ${dollarFormat(amount)} order on ${dateFormat(date)} of ${
-        items.length
-      } item(s): ${items.join(", ")}`
+      `Found ${currencyFormat(parsed.grandTotal, format)} order on ${dateFormat(
+        date
+      )} of ${items.length} item(s): ${items
+        .map((item) => item.title)
+        .join(", ")}${
+        charged !== parsed.grandTotal
+          ? ` (${currencyFormat(charged, format)} charged, ${balances.join(
+              ", "
+            )})`
+          : ""
+      }`
     );
 
     return {
+      id: orderId(email, mailbox),
+      uid: attributes.uid,
+      messageId,
+      mailbox,
+      orderNumber: parsed.orderNumber,
+      orderLink:
+        parsed.orderLink ||
+        (parsed.orderNumber &&
+          `https://www.${senderDomain(
+            email.from
+          )}/gp/your-account/order-details?orderID=${parsed.orderNumber}`),
       date,
-      amount: -(amount * 1000),
+      amount: -Math.round(charged * 1000),
+      total:
+        charged !== parsed.grandTotal
+          ? -Math.round(parsed.grandTotal * 1000)
+          : undefined,
+      giftCard: parsed.giftCard && -Math.round(parsed.giftCard * 1000),
       items,
     };
   } catch (e) {
@@ -138,191 +152,306 @@ const scanEmail = (email: Email): Order | undefined => {
   }
 };
 
-const readEmail = (
-  imapMsg: IMAP.ImapMessage,
-  readBody = true
-): Promise<Email | EmailHeader> =>
+// Prefers the item names from the original order, which Amazon truncates
+// less than in refund emails
+const originalItems = (refunded: OrderItem[], original: Order): OrderItem[] => {
+  if (refunded.length === 0) return original.items;
+
+  const prefix = (title: string) =>
+    title.replace(/\.+$/, "").slice(0, 30).toLowerCase();
+  return refunded.map(
+    (item) =>
+      original.items.find(
+        (o) =>
+          o.title.toLowerCase().startsWith(prefix(item.title)) ||
+          item.title.toLowerCase().startsWith(prefix(o.title))
+      ) || item
+  );
+};
+
+const scanRefundEmail = (
+  email: Email,
+  mailbox: string,
+  store: Store,
+  format: CurrencyFormat | null
+): Order | undefined => {
+  const { subject, messageId, body, attributes } = email;
+
+  const parsed = parseRefundEmail(body, subject);
+  if (!parsed) return;
+
+  const { orderNumber, total } = parsed;
+  const original = orderNumber
+    ? store.findOrderByNumber(orderNumber)
+    : undefined;
+  const refunded = parsed.items.map(toOrderItem);
+  const items = (original ? originalItems(refunded, original) : refunded).map(
+    (item) => ({ title: item.title, quantity: item.quantity }) // Refunds are never split
+  );
+
+  if (items.length === 0) return;
+
+  const date = emailDate(attributes);
+
+  console.info(
+    `Found ${currencyFormat(total, format)} refund on ${dateFormat(date)}${
+      orderNumber ? ` for order ${orderNumber}` : ""
+    }: ${items.map((item) => item.title).join(", ")}`
+  );
+
+  return {
+    id: orderId(email, mailbox),
+    uid: attributes.uid,
+    messageId,
+    mailbox,
+    orderNumber,
+    isRefund: true,
+    date,
+    amount: Math.round(total * 1000),
+    items,
+  };
+};
+
+// Records the email in the store of every budget the mailbox is routed to
+const handleEmail = (
+  email: Email,
+  mailbox: string,
+  stores: Store[],
+  format: CurrencyFormat | null
+): void => {
+  const type = getEmailType(email);
+
+  if (!type) {
+    console.log("Ignoring... not an Amazon email (sender or subject mismatch)");
+  } else if (type === "order") {
+    const order = scanEmail(email, mailbox, format);
+    // Each store gets its own copy, since shipments and cancellations
+    // update the order in place
+    if (order)
+      stores.forEach((store) => store.addOrder(structuredClone(order)));
+  } else if (type === "refund") {
+    for (const store of stores) {
+      const refund = scanRefundEmail(email, mailbox, store, format);
+      if (refund) store.addOrder(refund);
+    }
+  } else if (type === "shipment" || type === "cancellation") {
+    const orderNumber = parseOrderNumber(email.body, email.subject);
+    if (!orderNumber) {
+      console.log(`Ignoring... no order number in ${type} email`);
+    } else if (type === "shipment") {
+      const date = emailDate(email.attributes);
+      stores.forEach((store) => store.addShipment(orderNumber, date));
+    } else {
+      stores.forEach((store) => store.cancelOrder(orderNumber));
+    }
+  }
+};
+
+interface FetchedMessage {
+  attributes: IMAP.ImapMessageAttributes;
+  headers: Record<string, string[]>;
+  parts: Record<string, Buffer>; // Raw bodies by section, e.g. "1.2"
+}
+
+const fetchMessages = (
+  imap: IMAP,
+  uids: number[],
+  bodies: string[],
+  struct = false
+): Promise<FetchedMessage[]> =>
   new Promise((resolve, reject) => {
-    let headers: any = null;
-    let body: string | null = null;
-    let attributes: IMAP.ImapMessageAttributes | null = null;
-    imapMsg.once("attributes", function (attrs) {
-      attributes = attrs;
-    });
-    imapMsg.on("body", (stream, info) => {
-      let buffer = "";
-      let count = 0;
-      stream.on("data", function (chunk) {
-        count += chunk.length;
-        buffer += chunk.toString("utf8");
+    const fetch = imap.fetch(uids, { bodies, struct });
+    const messages: FetchedMessage[] = [];
+    fetch.on("message", (imapMsg) => {
+      let attributes: IMAP.ImapMessageAttributes | null = null;
+      let headers: Record<string, string[]> = {};
+      const parts: Record<string, Buffer> = {};
+      imapMsg.once("attributes", (attrs) => {
+        attributes = attrs;
       });
-      stream.once("end", function () {
-        switch (info.which) {
-          case "HEADER.FIELDS (FROM SUBJECT)":
-            headers = IMAP.parseHeader(buffer);
-            break;
-          case "TEXT":
-            body = quotedPrintable.decode(buffer.toString());
-            break;
-        }
+      imapMsg.on("body", (stream, info) => {
+        // Collect raw bytes, since the charset is only known from the struct
+        const chunks: Buffer[] = [];
+        stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+        stream.once("end", () => {
+          const data = Buffer.concat(chunks);
+          if (info.which.toUpperCase().startsWith("HEADER")) {
+            headers = IMAP.parseHeader(data.toString("utf8"));
+          } else {
+            parts[info.which] = data;
+          }
+        });
+      });
+      imapMsg.once("end", () => {
+        if (attributes) messages.push({ attributes, headers, parts });
       });
     });
-    imapMsg.once("end", function (attrs) {
-      if (
-        attributes &&
-        headers &&
-        headers.subject &&
-        headers.subject.length > 0 &&
-        (!readBody || body)
-      ) {
-        resolve({
-          from: headers.from[0],
-          subject: headers.subject[0],
-          attributes,
-          body: body || "",
-        } as Email | EmailHeader);
-      } else {
-        reject();
-      }
-    });
+    fetch.once("error", reject);
+    fetch.once("end", () => resolve(messages));
   });
 
+// Reads the emails with the given UIDs. Only the part holding each email's
+// body is downloaded, found from the message structure. An Amazon email
+// forwarded as an attachment is read in place of the email it came in.
 const fetchOrderEmails = async (
-  seq: any,
-  startIndex: number,
-  endIndex: number
-): Promise<Email[]> =>
-  new Promise((resolve, reject) => {
-    const fetch = seq.fetch(`${startIndex}:${endIndex}`, {
-      bodies: ["HEADER.FIELDS (FROM SUBJECT)", "TEXT"],
-      struct: true,
-    });
-    const emails: Email[] = [];
-    fetch.on("message", async (imapMsg: any) => {
-      try {
-        const email = (await readEmail(imapMsg, true)) as Email;
-        emails.push(email);
-      } catch (e) {
-        console.error(e);
-      }
-    });
-    fetch.once("end", function () {
-      resolve(emails);
-    });
-    fetch.once("error", function (err: any) {
-      reject(err);
-    });
-  });
+  imap: IMAP,
+  uids: number[]
+): Promise<Email[]> => {
+  const found: (Omit<Email, "body"> & { part: MimePart })[] = [];
+  for (const { attributes, headers } of await fetchMessages(
+    imap,
+    uids,
+    [HEADER_FIELDS],
+    true
+  )) {
+    const from = headers.from?.[0] || "";
+    const { struct } = attributes;
+    if (!isStruct(struct)) continue;
+    const attached = senderDomain(from)
+      ? undefined
+      : findAttachedMessages(struct).find((message) =>
+          senderDomain(message.from)
+        );
+    const part = attached ? attached.part : findBodyPart(struct);
+    if (!part?.partID) continue;
+
+    found.push(
+      attached
+        ? { ...attached, attributes }
+        : {
+            from,
+            subject: headers.subject?.[0] || "",
+            messageId: headers["message-id"]?.[0],
+            attributes,
+            part,
+          }
+    );
+  }
 
+  // One request per part ID, which is the same for most emails
+  const emails: Email[] = [];
+  const partIDs = [...new Set(found.map((email) => email.part.partID!))];
+  for (const partID of partIDs) {
+    const group = found.filter((email) => email.part.partID === partID);
+    const fetched = await fetchMessages(
+      imap,
+      group.map((email) => email.attributes.uid),
+      [partID]
+    );
+    for (const { attributes, parts } of fetched) {
+      const email = group.find((e) => e.attributes.uid === attributes.uid);
+      if (!email || !parts[partID]) continue;
+      const { part, ...rest } = email;
+      emails.push({ ...rest, body: decodePart(parts[partID], part) });
+    }
+  }
+  return emails;
+};
+
+// UID progress is saved per folder. The first folder uses the plain mailbox
+// name, which keeps progress saved before several folders were supported.
+const progressKey = (mailbox: MailboxConfig, folder: string): string =>
+  folder === mailbox.folders[0] ? mailbox.name : `${mailbox.name}/${folder}`;
+
+// An IMAP search key and its arguments, or keys grouped for OR
+type SearchCriterion = string | Date | SearchCriterion[];
+
+// Matches mail from any of the Amazon sender domains, or mail that quotes an
+// Amazon address like forwarded emails do. Nested ORs, since IMAP's OR only
+// takes two keys.
+const fromCriteria = (domains: string[]): SearchCriterion[] => {
+  const [domain, ...rest] = domains;
+  const criteria: SearchCriterion[] = [
+    "OR",
+    ["FROM", domain],
+    ["BODY", `@${domain}>`],
+  ];
+  return rest.length === 0 ? criteria : ["OR", criteria, fromCriteria(rest)];
+};
+
+const searchUids = (
+  imap: IMAP,
+  criteria: SearchCriterion[]
+): Promise<number[]> =>
+  new Promise((resolve, reject) =>
+    imap.search(criteria, (err, uids) => (err ? reject(err) : resolve(uids)))
+  );
+
+// Scans the open folder for Amazon emails each budget it is routed to has not
+// seen yet, then matches the orders found in every one of those budgets.
+// Runs on startup and again to pick up new mail.
 export const historicalSearch = async (
   imap: IMAP,
-  ynab: YNAB,
   box: IMAP.Box,
-  orders: Order[]
-): Promise<void> =>
-  new Promise((resolve) => {
+  mailbox: MailboxConfig,
+  budgets: YNAB[]
+): Promise<void> => {
+  const key = progressKey(mailbox, box.name);
+  const stores = budgets.map((ynab) => ynab.store);
+  // Amounts in emails are logged in the currency of the first budget
+  const format = budgets[0]?.budget?.currency_format ?? null;
+  const lastUids = stores.map((store) => store.resumeUid(key, box.uidvalidity));
+  const lastUid = lastUids.includes(undefined)
+    ? undefined
+    : Math.min(...(lastUids as number[]));
+
+  let criteria: SearchCriterion[];
+  if (lastUid !== undefined) {
+    console.log(`Resuming "${key}" after last seen email (UID ${lastUid})...`);
+    criteria = [["UID", `${lastUid + 1}:*`]];
+  } else {
+    const since = new Date();
+    since.setDate(since.getDate() - HISTORICAL_SEARCH_DAYS);
     console.log(
-      `Searching back over last ${HISTORICAL_SEARCH_NUM_EMAILS} emails...`
+      `Searching "${key}" for emails from the last ${HISTORICAL_SEARCH_DAYS} days...`
     );
+    criteria = [["SINCE", since]];
+  }
 
-    const endIndex = box.messages.total;
-    const startIndex = endIndex - (HISTORICAL_SEARCH_NUM_EMAILS - 1);
-    const fetch = imap.seq.fetch(`${startIndex}:${endIndex}`, {
-      bodies: ["HEADER.FIELDS (FROM SUBJECT)"],
-      struct: true,
-    });
+  // "<uid>:*" always returns the newest email, even if already seen
+  const uids = (
+    await searchUids(imap, [...criteria, fromCriteria(AMAZON_SENDER_DOMAINS)])
+  ).filter((uid) => lastUid === undefined || uid > lastUid);
+  console.info(`${uids.length} Amazon emails found`);
+
+  const emails: Email[] = [];
+  for (let i = 0; i < uids.length; i += FETCH_BATCH_SIZE) {
+    const batch = uids.slice(i, i + FETCH_BATCH_SIZE);
+    emails.push(...(await fetchOrderEmails(imap, batch)));
+    console.log(`${emails.length} of ${uids.length} emails read...`);
+  }
 
-    const emailFetches: Promise<void>[] = [];
-    const amazonMsgSeqNums: number[] = [];
-    let processedEmails = 0;
-
-    fetch.on("message", (imapMsg, seqno) => {
-      emailFetches.push(
-        new Promise(async (resolve, reject) => {
-          try {
-            const email = (await readEmail(imapMsg, false)) as EmailHeader;
-            if (isAmazonEmail(email)) amazonMsgSeqNums.push(seqno);
-            processedEmails++;
-            console.log(
-              `${processedEmails} emails collected... Limit: ${HISTORICAL_SEARCH_NUM_EMAILS}`
-            );
-            resolve();
-          } catch (e) {
-            console.error(e);
-            reject();
-          }
-        })
+  // Oldest first, so orders are known before their shipments, refunds
+  // and cancellations
+  emails
+    .sort(
+      (a, b) =>
+        new Date(a.attributes.date).getTime() -
+        new Date(b.attributes.date).getTime()
+    )
+    .forEach((email) => {
+      // Stores that are further along have already seen the email
+      const unseen = stores.filter(
+        (_, i) => (lastUids[i] || 0) < email.attributes.uid
       );
+      handleEmail(email, mailbox.name, unseen, format);
     });
 
-    fetch.on("error", (err: any) => {
-      throw new Error(String(err));
-    });
-
-    fetch.once("end", async () => {
-      await Promise.allSettled(emailFetches);
-
-      const amazonEmailCount = amazonMsgSeqNums.length;
-      console.info(
-        `${amazonEmailCount} Amazon order confirmation emails found`
-      );
-
-      const emailScans: Promise<void>[] = [];
-
-      amazonMsgSeqNums.forEach((seqno) => {
-        emailScans.push(
-          new Promise(async (resolve, reject) => {
-            try {
-              const [email] = await fetchOrderEmails(imap.seq, seqno, seqno);
-              const order = await scanEmail(email);
-              if (order) orders.push(order);
-              resolve();
-            } catch (e) {
-              console.error(e);
-              reject();
-            }
-          })
-        );
-      });
-
-      await Promise.allSettled(emailScans);
-
-      console.log("Finished scanning old emails successfully!");
-
-      if (orders.length > 0) {
-        orders.sort(function (a, b) {
-          return new Date(a.date).getTime() - new Date(b.date).getTime();
-        });
-
-        const sinceDate = orders[0].date;
-        await ynab.fetchTransactions(sinceDate);
-        const matches = ynab.matchTransactions(orders);
-        await ynab.updateTransactions(matches);
-      }
-
-      resolve();
-    });
+  // Everything up to the newest UID has been searched, Amazon or not
+  const highestUid = Math.max(box.uidnext - 1, ...uids);
+  stores.forEach((store) => {
+    store.markUidSeen(key, highestUid);
+    store.save();
   });
 
-export const watchInbox = (
-  imap: IMAP,
-  ynab: YNAB,
-  box: IMAP.Box,
-  orders: Order[]
-): void => {
-  imap.on("mail", async (newEmailCount: number) => {
-    console.log(`${newEmailCount} new email(s), scanning contents...`);
-    const endIndex = box.messages.total;
-    const startIndex = endIndex - (newEmailCount - 1);
-    try {
-      const emails = await fetchOrderEmails(imap.seq, startIndex, endIndex);
-      for (const email of emails) {
-        const order = scanEmail(email);
-        if (order) orders.push(order);
-      }
+  console.log(`Finished scanning emails in "${key}" successfully!`);
+
+  for (const ynab of budgets) {
+    const orders = ynab.store.getOrders();
+    if (orders.length > 0) {
+      const sinceDate = orders[0].date;
+      await ynab.fetchTransactions(sinceDate);
       await ynab.matchAndUpdate(orders);
-    } catch (e) {
-      console.error(e);
     }
-  });
+  }
 };
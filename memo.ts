@@ -0,0 +1,84 @@
+const YNAB_MEMO_TEMPLATE = process.env.YNAB_MEMO_TEMPLATE || "{items}";
+
+// YNAB rejects memos longer than this
+export const MAX_MEMO_LENGTH = 200;
+
+export interface MemoFields {
+  orderNumber?: string;
+  items: string[];
+  itemCount: number;
+  total: string;
+  link?: string;
+}
+
+// One pass with a replacer function, so "$&" in a title stays as it is and
+// placeholders inside the values aren't filled in again
+const render = (template: string, fields: MemoFields, items: string) => {
+  const values: Record<string, string> = {
+    orderNumber: fields.orderNumber || "",
+    itemCount: String(fields.itemCount),
+    total: fields.total,
+    link: fields.link || "",
+    items,
+  };
+  return (
+    template
+      .replace(
+        /\{(orderNumber|itemCount|total|link|items)\}/g,
+        (_, name) => values[name]
+      )
+      // Drop separators left dangling by empty placeholders
+      .replace(/^[\s:|,-]+|[\s:|,-]+$/g, "")
+  );
+};
+
+const shortenTitle = (title: string, maxLength: number): string => {
+  if (title.length <= maxLength) return title;
+  if (maxLength < 3) return "";
+
+  const words = title.slice(0, maxLength - 2).split(" ");
+  const cutMidWord = title[maxLength - 2] !== " ";
+  if (cutMidWord && words.length > 1) words.pop(); // Don't leave half a word
+  return `${words.join(" ").replace(/,$/, "")}..`;
+};
+
+// Fits as many item titles as possible into the given length, shortening the
+// last one that fits partially and noting how many were left out
+export const fitItems = (items: string[], maxLength: number): string => {
+  const joined = items.join(", ");
+  if (joined.length <= maxLength) return joined;
+
+  const fitted: string[] = [];
+  for (const [index, title] of items.entries()) {
+    const remaining = items.length - index - 1;
+    const suffix = remaining > 0 ? ` (+${remaining} more)` : "";
+    const used = [...fitted, ""].join(", ").length;
+    const room = maxLength - used - suffix.length;
+
+    if (title.length <= room) {
+      fitted.push(title);
+      continue;
+    }
+
+    const shortened = shortenTitle(title, room);
+    if (shortened) fitted.push(shortened);
+    const left = items.length - fitted.length;
+    const list = fitted.join(", ");
+    return left > 0 ? `${list} (+${left} more)`.trim() : list;
+  }
+  return fitted.join(", ");
+};
+
+export const buildMemo = (
+  fields: MemoFields,
+  maxLength: number = MAX_MEMO_LENGTH,
+  template: string = YNAB_MEMO_TEMPLATE
+): string => {
+  // Measure everything around the items with a one-character stand-in
+  const itemsLength =
+    maxLength - (render(template, fields, "\u0000").length - 1);
+  const memo = render(template, fields, fitItems(fields.items, itemsLength));
+
+  // Only a very long template or link can still be over the limit
+  return memo.slice(0, maxLength);
+};
@@ -0,0 +1,121 @@
+import quotedPrintable from "quoted-printable";
+import { isRecord } from "./json.js";
+
+// A part of the BODYSTRUCTURE node-imap returns with `struct: true`.
+// Multipart containers only have `type` (their subtype, e.g. "alternative")
+// and `params`.
+interface MimePart {
+  partID?: string;
+  type: string;
+  subtype?: string;
+  params: Record<string, string> | null;
+  encoding?: string;
+  disposition?: { type: string; params: Record<string, string> | null } | null;
+  envelope?: Envelope | null; // message/rfc822 only
+  body?: Struct | null; // message/rfc822 only
+}
+
+// The part itself, followed by the structs of its children
+type Struct = [MimePart, ...Struct[]];
+
+interface EnvelopeAddress {
+  name?: string | null;
+  mailbox: string;
+  host: string;
+}
+
+interface Envelope {
+  subject?: string | null;
+  from?: EnvelopeAddress[] | null;
+  messageId?: string | null;
+}
+
+// An email attached to another, e.g. an order forwarded as an .eml file
+interface AttachedMessage {
+  from: string;
+  subject: string;
+  messageId?: string;
+  part: MimePart; // The part to read the attached email's body from
+}
+
+// Whether node-imap's untyped struct has the shape of a Struct
+export const isStruct = (value: unknown): value is Struct => {
+  if (!Array.isArray(value)) return false;
+  const [part, ...children] = value;
+  return (
+    isRecord(part) && typeof part.type === "string" && children.every(isStruct)
+  );
+};
+
+const leafParts = (struct: Struct): MimePart[] => {
+  const [part, ...children] = struct;
+  return part.subtype ? [part] : children.flatMap(leafParts);
+};
+
+const isAttachment = (part: MimePart): boolean =>
+  part.disposition?.type?.toLowerCase() === "attachment";
+
+const formatAddress = (address?: EnvelopeAddress): string => {
+  if (!address) return "";
+  const email = `${address.mailbox}@${address.host}`;
+  return address.name ? `"${address.name}" <${email}>` : email;
+};
+
+// The part holding an email's body: the HTML part, or plain text when there
+// is none. Attachments and attached emails are skipped.
+export const findBodyPart = (struct: Struct): MimePart | undefined => {
+  const parts = leafParts(struct).filter(
+    (part) => part.type === "text" && !isAttachment(part)
+  );
+  return (
+    parts.find((part) => part.subtype === "html") ||
+    parts.find((part) => part.subtype === "plain")
+  );
+};
+
+// Emails attached to this one, including ones attached to those in turn
+export const findAttachedMessages = (struct: Struct): AttachedMessage[] =>
+  leafParts(struct)
+    .filter(
+      (part) =>
+        part.type === "message" && part.subtype === "rfc822" && part.body
+    )
+    .flatMap((message) => {
+      const body = findBodyPart(message.body!);
+      if (!body) return findAttachedMessages(message.body!);
+
+      // node-imap gives a single-part attached email the ID of the
+      // message/rfc822 part, but its body is fetched as "<id>.1"
+      const partID =
+        body.partID === message.partID ? `${body.partID}.1` : body.partID;
+      return [
+        {
+          from: formatAddress(message.envelope?.from?.[0]),
+          subject: message.envelope?.subject || "",
+          messageId: message.envelope?.messageId || undefined,
+          part: { ...body, partID },
+        },
+        ...findAttachedMessages(message.body!),
+      ];
+    });
+
+// Decodes a fetched part using its transfer encoding and charset
+export const decodePart = (data: Buffer, part: MimePart): string => {
+  const encoding = part.encoding?.toLowerCase();
+  const bytes =
+    encoding === "base64"
+      ? Buffer.from(data.toString("ascii"), "base64")
+      : encoding === "quoted-printable"
+      ? Buffer.from(quotedPrintable.decode(data.toString("binary")), "binary")
+      : data;
+
+  const charset = part.params?.charset || "utf-8";
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    // Unknown charset
+    return bytes.toString("utf8");
+  }
+};
+
+export type { AttachedMessage, MimePart, Struct };
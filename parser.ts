@@ -0,0 +1,302 @@
+import * as cheerio from "cheerio";
+
+// Pure parsing of Amazon email HTML. Amounts are returned as they appear in
+// the email (e.g. 12.34); callers convert them to YNAB milliunits.
+
+// Amounts always have two decimals, with either "." or "," as the decimal
+// separator, and optional "." / "," / "'" thousands separators
+const NUMBER = "(\\d{1,3}(?:[.,']\\d{3})+[.,]\\d{2}|\\d+[.,]\\d{2})(?!\\d)";
+
+// Currency markers used by the US, Canadian, UK and German storefronts
+const CURRENCY = "(?:CDN\\$|CA\\$|US\\$|\\$|£|€|EUR|GBP|CAD|USD)";
+
+const AMOUNT_REGEX = new RegExp(
+  `${CURRENCY}\\s*${NUMBER}|${NUMBER}\\s*${CURRENCY}`
+);
+
+// Regular orders look like 112-1234567-1234567, digital ones D01-1234567-1234567
+const ORDER_NUMBER_REGEX = /\b(?:\d{3}|D\d{2})-\d{7}-\d{7}\b/;
+
+// Labels cover the English and German storefronts
+const ORDER_DATE_REGEX =
+  /(?:order placed|placed on|order date|ordered on)\s*:?\s*(?:[a-z]+day,?\s*)?([a-z]+\.? \d{1,2},? \d{4})/i;
+
+const SUBTOTAL_LABEL =
+  /^(?:item\(s\) subtotal|items? subtotal|subtotal|zwischensumme)\b/i;
+const SHIPPING_LABEL =
+  /^(?:shipping(?: & handling)?|postage(?: & packing)?|delivery|verpackung & versand|versand)\s*:/i;
+const TAX_LABEL =
+  /^(?:estimated tax|tax collected|tax|estimated gst\/hst|gst\/hst|vat|mwst|ust)\b/i;
+const DISCOUNT_LABEL =
+  /^(?:promotions? applied|promotion|discount|your coupon savings|coupon|subscribe & save)\b/i;
+// Balances that pay part of the grand total, so less is charged to the card
+const GIFT_CARD_LABEL =
+  /^(?:gift cards?(?: amount| balance)?(?: applied)?|amazon (?:gift card )?balance(?: applied)?|geschenkgutschein(?:\(e\)|e)?)\s*:/i;
+const POINTS_LABEL =
+  /^(?:(?:amazon |rewards? )?points(?: applied| redeemed)?|shop with points)\s*:/i;
+const PROMO_CREDIT_LABEL =
+  /^(?:promotional (?:credit|balance|certificate)s?(?: applied)?|promo credits?(?: applied)?)\s*:/i;
+const CHARGED_LABEL =
+  /^(?:amount charged|total charged|charged to|payment total|zahlungsbetrag)\b/i;
+const GRAND_TOTAL_LABEL =
+  /^(?:grand total|order total|total|gesamtsumme|gesamtbetrag|summe)\s*:/i;
+const REFUND_TOTAL_LABEL =
+  /(?:refund total|total refund|refund amount|refund subtotal)/i;
+
+// Navigation links that also point at product pages
+const EXCLUDED_LINK_TEXT = [
+  "View or edit order",
+  "Your Orders",
+  "Your Account",
+  "Buy Again",
+  "Track package",
+];
+
+export interface ParsedItem {
+  title: string;
+  quantity: number;
+  price?: number; // As shown next to the item, i.e. for the whole line
+}
+
+export interface ParsedOrder {
+  orderNumber?: string;
+  orderLink?: string; // Order details page on Amazon
+  orderDate?: Date;
+  items: ParsedItem[];
+  subtotal?: number;
+  shipping?: number;
+  tax?: number;
+  discounts?: number; // Total of all promotions and coupons, as a positive amount
+  grandTotal: number;
+  // Balances that paid part of the grand total, as positive amounts
+  giftCard?: number; // Gift cards and Amazon balance
+  points?: number;
+  promoCredits?: number;
+  charged?: number; // What was left for the card, when balances were used
+}
+
+export interface ParsedRefund {
+  orderNumber?: string;
+  total: number;
+  items: ParsedItem[];
+}
+
+// Mail forwarding sometimes messes with ID/class attributes,
+// so cleaning up the attributes prefixed with "x_"
+const loadBody = (html: string): cheerio.CheerioAPI =>
+  cheerio.load(html.replace(/"x_/g, '"'));
+
+const normalizeText = (text: string): string =>
+  text.replace(/\s+/g, " ").trim();
+
+export const parseAmount = (text: string): number | undefined => {
+  const match = text.match(AMOUNT_REGEX);
+  if (!match) return;
+
+  // The last separator is the decimal one, the rest group thousands
+  const number = match[1] || match[2];
+  const whole = number.slice(0, -3).replace(/[.,']/g, "");
+  return parseFloat(`${whole}.${number.slice(-2)}`);
+};
+
+export const cleanTitle = (text: string): string => {
+  let title = normalizeText(text);
+  if (title.endsWith("...")) {
+    title = title.split(" ").slice(0, -1).join(" ");
+    if (title.endsWith(",")) title = title.slice(0, -1);
+    title += "..";
+  }
+  return title;
+};
+
+// The URL if it's an https page on an Amazon site. Links come from email
+// HTML anyone can send, and the dashboard shows them.
+export const amazonLink = (href: string | undefined): string | undefined => {
+  if (!href) return;
+  try {
+    const url = new URL(href);
+    if (
+      url.protocol === "https:" &&
+      /(^|\.)amazon\.(com?\.)?[a-z]{2,3}$/.test(url.hostname)
+    )
+      return url.href;
+  } catch {
+    // Not a URL
+  }
+};
+
+const parseQuantity = (text: string): number => {
+  const match = text.match(/(?:quantity|qty|menge)\s*:?\s*(\d+)/i);
+  return match ? parseInt(match[1]) : 1;
+};
+
+const findOrderNumber = (
+  $: cheerio.CheerioAPI,
+  subject: string
+): string | undefined =>
+  (subject.match(ORDER_NUMBER_REGEX) ||
+    $.text().match(ORDER_NUMBER_REGEX))?.[0];
+
+export const parseOrderNumber = (
+  html: string,
+  subject = ""
+): string | undefined => findOrderNumber(loadBody(html), subject);
+
+const findOrderDate = ($: cheerio.CheerioAPI): Date | undefined => {
+  const match = normalizeText($.text()).match(ORDER_DATE_REGEX);
+  if (!match) return;
+  const date = new Date(match[1]);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+// Innermost rows only, so a label is never paired with another row's amount
+const summaryRows = ($: cheerio.CheerioAPI): string[] =>
+  $("tr")
+    .filter((_, row) => $(row).find("tr").length === 0)
+    .map((_, row) => normalizeText($(row).text()))
+    .toArray();
+
+const findLabeledAmounts = (rows: string[], label: RegExp): number[] =>
+  rows
+    .filter((row) => label.test(row))
+    .map(parseAmount)
+    .filter((amount): amount is number => amount !== undefined);
+
+const sumLabeledAmounts = (
+  rows: string[],
+  label: RegExp
+): number | undefined => {
+  const amounts = findLabeledAmounts(rows, label);
+  return amounts.length > 0
+    ? amounts.reduce((sum, amount) => sum + amount, 0)
+    : undefined;
+};
+
+// Rounded to cents, since subtracting floats leaves fractions of them
+const roundCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+const findItems = ($: cheerio.CheerioAPI): ParsedItem[] => {
+  const items: ParsedItem[] = [];
+
+  // Current layout: product names are links to the product page
+  $("a").each((_, link) => {
+    const $link = $(link);
+    const href = $link.attr("href") || "";
+    const text = normalizeText($link.text());
+
+    if (
+      !(href.includes("/dp/") || href.includes("asin")) ||
+      text.length === 0 ||
+      text.length >= 200 ||
+      EXCLUDED_LINK_TEXT.some((pattern) => text.includes(pattern))
+    )
+      return;
+
+    // Price and quantity sit in the nearest enclosing row that mentions them
+    const rows = $link
+      .parents("tr")
+      .toArray()
+      .map((row) => $(row).text());
+    const priceRow = rows.find((row) => AMOUNT_REGEX.test(row));
+    items.push({
+      title: cleanTitle(text),
+      quantity: parseQuantity(priceRow || rows[0] || ""),
+      price: priceRow ? parseAmount(priceRow) : undefined,
+    });
+  });
+
+  if (items.length > 0) return items;
+
+  // Legacy layout: one row per item in the item details table
+  $('table[id$="itemDetails"] tr').each((_, row) => {
+    const title = cleanTitle($(row).find("font").first().text());
+    if (title.length === 0) return;
+    const text = $(row).text();
+    items.push({
+      title,
+      quantity: parseQuantity(text),
+      price: parseAmount(text),
+    });
+  });
+
+  return items;
+};
+
+const findGrandTotal = (
+  $: cheerio.CheerioAPI,
+  rows: string[]
+): number | undefined => {
+  const labeled = findLabeledAmounts(rows, GRAND_TOTAL_LABEL);
+  if (labeled.length > 0) return labeled[labeled.length - 1];
+
+  // Legacy layout keeps the order total alone in its own table
+  const legacy = parseAmount($('table[id$="costBreakdownRight"] td').text());
+  if (legacy !== undefined) return legacy;
+
+  // Last resort: the first amount in the innermost table mentioning a total
+  const table = $("table")
+    .filter(
+      (_, t) => $(t).find("table").length === 0 && $(t).text().includes("Total")
+    )
+    .first();
+  return table.length > 0 ? parseAmount(table.text()) : undefined;
+};
+
+export const parseOrderEmail = (
+  html: string,
+  subject = ""
+): ParsedOrder | undefined => {
+  const $ = loadBody(html);
+  const rows = summaryRows($);
+
+  const grandTotal = findGrandTotal($, rows);
+  if (grandTotal === undefined || grandTotal === 0) return;
+
+  const items = findItems($);
+  if (items.length === 0) return;
+
+  const giftCard = sumLabeledAmounts(rows, GIFT_CARD_LABEL);
+  const points = sumLabeledAmounts(rows, POINTS_LABEL);
+  const promoCredits = sumLabeledAmounts(rows, PROMO_CREDIT_LABEL);
+  const balances = (giftCard || 0) + (points || 0) + (promoCredits || 0);
+  const stated = findLabeledAmounts(rows, CHARGED_LABEL);
+
+  return {
+    orderNumber: findOrderNumber($, subject),
+    orderLink: amazonLink($('a[href*="order-details"]').first().attr("href")),
+    orderDate: findOrderDate($),
+    items,
+    subtotal: findLabeledAmounts(rows, SUBTOTAL_LABEL)[0],
+    shipping: findLabeledAmounts(rows, SHIPPING_LABEL)[0],
+    tax: findLabeledAmounts(rows, TAX_LABEL)[0],
+    discounts: sumLabeledAmounts(rows, DISCOUNT_LABEL),
+    grandTotal,
+    giftCard,
+    points,
+    promoCredits,
+    charged:
+      stated.length > 0
+        ? stated[stated.length - 1]
+        : balances > 0
+        ? roundCents(Math.max(grandTotal - balances, 0))
+        : undefined,
+  };
+};
+
+export const parseRefundEmail = (
+  html: string,
+  subject = ""
+): ParsedRefund | undefined => {
+  const $ = loadBody(html);
+  const text = normalizeText($.text());
+
+  const labelIndex = text.search(REFUND_TOTAL_LABEL);
+  const total = parseAmount(labelIndex >= 0 ? text.slice(labelIndex) : text);
+  if (total === undefined) return;
+
+  return {
+    orderNumber: findOrderNumber($, subject),
+    total,
+    items: findItems($),
+  };
+};
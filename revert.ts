@@ -0,0 +1,73 @@
+import "dotenv/config";
+import { parseArgs } from "util";
+import YNAB from "./ynab.js";
+import Store from "./store.js";
+import { loadConfig } from "./config.js";
+import { listRuns } from "./journal.js";
+
+// Undoes writes recorded in a budget's journal. Stop the sync first, so the
+// state file isn't overwritten while reverting.
+//   npm run revert -- --budget home --runs
+//   npm run revert -- --budget home --run 20241207T094112-a3f9
+//   npm run revert -- --budget home --since 2024-12-07 --until 2024-12-08
+//   npm run revert -- --budget home --transaction <id> --dry-run
+const { values } = parseArgs({
+  options: {
+    budget: { type: "string" },
+    transaction: { type: "string" },
+    run: { type: "string" },
+    since: { type: "string" },
+    until: { type: "string" },
+    runs: { type: "boolean", default: false },
+    "dry-run": { type: "boolean", default: false },
+  },
+});
+
+const parseDate = (value: string | undefined): Date | undefined => {
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) throw new Error(`Invalid date "${value}"`);
+  return date;
+};
+
+(async () => {
+  const config = loadConfig();
+  const budgetConfig =
+    config.budgets.length === 1 && !values.budget
+      ? config.budgets[0]
+      : config.budgets.find((budget) => budget.name === values.budget);
+  if (!budgetConfig)
+    throw new Error(
+      `Choose a budget with --budget: ${config.budgets
+        .map((budget) => budget.name)
+        .join(", ")}`
+    );
+
+  const dryRun = values["dry-run"]!;
+  const store = new Store(budgetConfig.stateFile, dryRun);
+  store.load();
+  const ynab = new YNAB(budgetConfig, store, dryRun);
+
+  if (values.runs) {
+    for (const run of listRuns(ynab.journal.read()))
+      console.log(`${run.runId}  ${run.at}  ${run.writes} write(s)`);
+    return;
+  }
+
+  const selection = {
+    transactionId: values.transaction,
+    runId: values.run,
+    since: parseDate(values.since),
+    until: parseDate(values.until),
+  };
+  if (!Object.values(selection).some((value) => value !== undefined))
+    throw new Error(
+      "Choose what to revert with --transaction, --run or --since"
+    );
+
+  await ynab.init();
+  await ynab.revert(selection);
+})().catch((e) => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(1);
+});
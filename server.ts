@@ -0,0 +1,208 @@
+import http from "http";
+import YNAB, { Order } from "./ynab.js";
+import { DASHBOARD_HTML } from "./dashboard.js";
+import { isRecord } from "./json.js";
+import { amazonLink } from "./parser.js";
+
+// Off unless a port is given. Only this machine can connect by default, set
+// HTTP_HOST=0.0.0.0 to open the dashboard to the local network.
+const HTTP_PORT = parseInt(process.env.HTTP_PORT || "0");
+const HTTP_HOST = process.env.HTTP_HOST || "127.0.0.1";
+
+interface ServerContext {
+  budgets: Record<string, YNAB>;
+  rescan: () => Promise<void>; // Checks every mailbox for new emails
+}
+
+interface ApiResponse {
+  status: number;
+  type: string;
+  body: string;
+}
+
+export class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const json = (body: unknown, status = 200): ApiResponse => ({
+  status,
+  type: "application/json",
+  body: JSON.stringify(body),
+});
+
+const orderStatus = (ynab: YNAB, order: Order, matched: boolean): string => {
+  if (order.canceled) return "canceled";
+  if (ynab.ambiguousOrders[order.id]) return "ambiguous";
+  if (ynab.store.state.settled[order.id]) return "paid";
+  if (ynab.pendingShare(order)) return matched ? "partial" : "pending";
+  return matched ? "matched" : "no charge";
+};
+
+// Newest first, with the transactions each order matched
+export const listOrders = (ynab: YNAB) => {
+  const matches = Object.entries(ynab.store.state.matches);
+  return ynab.store
+    .getOrders()
+    .reverse()
+    .map((order) => {
+      const transactionIds = matches
+        .filter(([, match]) => match.orderId === order.id)
+        .map(([transactionId]) => transactionId);
+      return {
+        id: order.id,
+        orderNumber: order.orderNumber,
+        // Orders saved before links were checked may have any link
+        orderLink: amazonLink(order.orderLink),
+        date: order.date,
+        amount: order.amount,
+        isRefund: !!order.isRefund,
+        items: order.items.map((item) => item.title),
+        status: orderStatus(ynab, order, transactionIds.length > 0),
+        transactionIds,
+      };
+    });
+};
+
+// Newest first, with the order each transaction matched
+export const listTransactions = (ynab: YNAB) =>
+  Object.values(ynab.transactions)
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .map((t) => ({
+      id: t.id,
+      date: t.date,
+      amount: t.amount,
+      payee: t.payee_name,
+      account: t.account_name,
+      memo: t.memo,
+      category: t.category_name,
+      orderId: ynab.store.state.matches[t.id]?.orderId,
+    }));
+
+const parseBody = (body: string): Record<string, unknown> => {
+  let parsed: unknown;
+  try {
+    parsed = body ? JSON.parse(body) : {};
+  } catch {
+    throw new HttpError(400, "Invalid JSON body");
+  }
+  if (!isRecord(parsed)) throw new HttpError(400, "Expected a JSON object");
+  return parsed;
+};
+
+const route = async (
+  context: ServerContext,
+  method: string,
+  path: string,
+  body: string
+): Promise<ApiResponse> => {
+  if (method === "GET" && path === "/")
+    return { status: 200, type: "text/html", body: DASHBOARD_HTML };
+
+  if (method === "GET" && path === "/api/budgets")
+    return json(
+      Object.entries(context.budgets).map(([name, ynab]) => ({
+        name,
+        orders: ynab.store.getOrders().length,
+        pendingOrders: ynab.store.getOrders().filter(ynab.pendingShare).length,
+        transactions: ynab.getCachedTransactionCount(),
+        matches: Object.keys(ynab.store.state.matches).length,
+      }))
+    );
+
+  if (method === "POST" && path === "/api/rescan") {
+    await context.rescan();
+    return json({ ok: true });
+  }
+
+  const match = path.match(/^\/api\/budgets\/([^/]+)\/(.+)$/);
+  if (!match) throw new HttpError(404, "Not found");
+  const ynab = context.budgets[decodeURIComponent(match[1])];
+  if (!ynab) throw new HttpError(404, "Unknown budget");
+  const [resource, id, action] = match[2].split("/").map(decodeURIComponent);
+
+  if (method === "GET" && resource === "orders" && !id)
+    return json(listOrders(ynab));
+  if (method === "GET" && resource === "transactions" && !id)
+    return json(listTransactions(ynab));
+  if (method === "GET" && resource === "updates" && !id)
+    return json(ynab.recentUpdates);
+
+  if (method === "POST" && resource === "links" && !id) {
+    const { orderId, transactionId } = parseBody(body);
+    if (typeof orderId !== "string" || typeof transactionId !== "string")
+      throw new HttpError(400, "orderId and transactionId are required");
+    await ynab.linkOrder(orderId, transactionId);
+    return json({ ok: true });
+  }
+  if (method === "DELETE" && resource === "links" && id && !action) {
+    await ynab.unlinkTransaction(id);
+    return json({ ok: true });
+  }
+  if (
+    method === "POST" &&
+    resource === "transactions" &&
+    id &&
+    action === "recategorize"
+  ) {
+    await ynab.recategorize(id);
+    return json({ ok: true });
+  }
+
+  throw new HttpError(404, "Not found");
+};
+
+export const handleRequest = async (
+  context: ServerContext,
+  method: string,
+  url: string,
+  contentType: string,
+  body: string
+): Promise<ApiResponse> => {
+  try {
+    // Browsers can't send JSON to another site without asking first, so
+    // other websites can't change anything through the dashboard
+    if (method !== "GET" && !contentType.startsWith("application/json"))
+      throw new HttpError(415, "Requests must be sent as application/json");
+    return await route(
+      context,
+      method,
+      new URL(url, "http://x").pathname,
+      body
+    );
+  } catch (e) {
+    if (e instanceof HttpError) return json({ error: e.message }, e.status);
+    // The YNAB client throws the API's error response as is
+    const message = e instanceof Error ? e.message : JSON.stringify(e);
+    console.error(`${method} ${url} failed: ${message}`);
+    return json({ error: message }, 400);
+  }
+};
+
+export const startServer = (context: ServerContext): http.Server | null => {
+  if (!HTTP_PORT) return null;
+
+  const server = http.createServer(async (req, res) => {
+    let body = "";
+    for await (const chunk of req) body += chunk;
+    const response = await handleRequest(
+      context,
+      req.method || "GET",
+      req.url || "/",
+      req.headers["content-type"] || "",
+      body
+    );
+    res.writeHead(response.status, { "content-type": response.type });
+    res.end(response.body);
+  });
+  server.listen(HTTP_PORT, HTTP_HOST, () =>
+    console.log(`Dashboard running at http://${HTTP_HOST}:${HTTP_PORT}/`)
+  );
+  return server;
+};
+
+export type { ServerContext };
@@ -0,0 +1,113 @@
+// Helpers for orders that Amazon charges as several card transactions, one
+// per shipment. All amounts are absolute milliunits.
+
+const YNAB_MAX_SHIPMENTS_PER_ORDER = parseInt(
+  process.env.YNAB_MAX_SHIPMENTS_PER_ORDER || "4"
+);
+
+// Subset searches are exponential, so give up on unusually large orders
+const MAX_ITEMS_FOR_SUBSET_SEARCH = 12;
+
+interface Charge {
+  id: string;
+  amount: number;
+}
+
+interface PricedItem {
+  index: number;
+  amount: number;
+}
+
+const sum = (amounts: number[]): number =>
+  amounts.reduce((total, amount) => total + amount, 0);
+
+// Finds 2 or more charges that add up to the target, preferring fewer charges
+export const findChargeSet = (
+  target: number,
+  charges: Charge[],
+  tolerance: number
+): Charge[] | null => {
+  const maxSize = Math.min(YNAB_MAX_SHIPMENTS_PER_ORDER, charges.length);
+
+  const search = (
+    start: number,
+    size: number,
+    chosen: Charge[],
+    total: number
+  ): Charge[] | null => {
+    if (chosen.length === size)
+      return Math.abs(total - target) <= tolerance ? chosen : null;
+
+    for (let i = start; i < charges.length; i++) {
+      const nextTotal = total + charges[i].amount;
+      if (nextTotal > target + tolerance) continue;
+      const found = search(i + 1, size, [...chosen, charges[i]], nextTotal);
+      if (found) return found;
+    }
+    return null;
+  };
+
+  for (let size = 2; size <= maxSize; size++) {
+    const found = search(0, size, [], 0);
+    if (found) return found;
+  }
+  return null;
+};
+
+// Assigns every item to one of the charges so that each charge is covered by
+// its items' prices, scaled up by the order's tax and shipping ratio. Returns
+// the item indexes for each charge, or null if no assignment fits.
+export const partitionItems = (
+  items: PricedItem[],
+  chargeAmounts: number[],
+  scale: number,
+  tolerance: number
+): number[][] | null => {
+  if (items.length > MAX_ITEMS_FOR_SUBSET_SEARCH) return null;
+
+  const totals = chargeAmounts.map(() => 0);
+  const assignment: number[][] = chargeAmounts.map(() => []);
+
+  const assign = (position: number): boolean => {
+    if (position === items.length)
+      return totals.every(
+        (total, i) => Math.abs(total * scale - chargeAmounts[i]) <= tolerance
+      );
+
+    const item = items[position];
+    for (let i = 0; i < chargeAmounts.length; i++) {
+      if ((totals[i] + item.amount) * scale > chargeAmounts[i] + tolerance)
+        continue;
+
+      totals[i] += item.amount;
+      assignment[i].push(item.index);
+      if (assign(position + 1)) return true;
+      totals[i] -= item.amount;
+      assignment[i].pop();
+    }
+    return false;
+  };
+
+  return assign(0) ? assignment : null;
+};
+
+// Finds a proper subset of items whose scaled prices cover a single charge,
+// for when only part of an order has shipped so far
+export const findItemSubset = (
+  items: PricedItem[],
+  chargeAmount: number,
+  scale: number,
+  tolerance: number
+): number[] | null => {
+  if (items.length < 2 || items.length > MAX_ITEMS_FOR_SUBSET_SEARCH)
+    return null;
+
+  // Skip the empty set and the full set, which the regular matcher handles
+  for (let mask = 1; mask < (1 << items.length) - 1; mask++) {
+    const subset = items.filter((_, i) => mask & (1 << i));
+    const total = sum(subset.map((item) => item.amount));
+    if (Math.abs(total * scale - chargeAmount) <= tolerance)
+      return subset.map((item) => item.index);
+  }
+  return null;
+};
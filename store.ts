@@ -0,0 +1,234 @@
+import fs from "fs";
+import path from "path";
+import * as ynab from "ynab";
+import type { Order } from "./ynab.js";
+import type { CategoryExample } from "./category-examples.js";
+import type { CategoryMatch } from "./categorizer.js";
+import { isRecord } from "./json.js";
+
+// What the sync left on a transaction, to tell whether the user reviewed it
+interface WrittenState {
+  categoryIds: (string | null)[]; // The transaction's, or each split line's
+  approved: boolean;
+}
+
+interface MatchRecord {
+  orderId: string;
+  itemIndexes?: number[]; // Only the items charged in this transaction
+  matchedAt: string;
+  written?: WrittenState;
+}
+
+interface MailboxProgress {
+  uidValidity?: number;
+  lastUid?: number;
+}
+
+interface State {
+  mailboxes: Record<string, MailboxProgress>;
+  serverKnowledge?: number;
+  orders: Record<string, Order>;
+  transactions: Record<string, ynab.TransactionDetail>;
+  matches: Record<string, MatchRecord>; // Keyed by YNAB transaction ID
+  canceledOrderNumbers: string[];
+  examples: Record<string, CategoryExample>; // See examplesFromTransaction
+  examplesMined?: boolean; // Whether the budget history was read for examples
+  categoryCache: Record<string, CategoryMatch>; // Model results, by items
+  unlinked: Record<string, string[]>; // By transaction ID, orders it must not match
+  // By order ID, a charge that already had a memo, so the order was paid
+  settled: Record<string, string>;
+}
+
+const emptyState = (): State => ({
+  mailboxes: {},
+  orders: {},
+  transactions: {},
+  matches: {},
+  canceledOrderNumbers: [],
+  examples: {},
+  categoryCache: {},
+  unlinked: {},
+  settled: {},
+});
+
+export default class Store {
+  filePath: string;
+  readOnly: boolean;
+  state: State = emptyState();
+
+  // A read-only store loads saved state but never writes it back
+  constructor(filePath: string, readOnly = false) {
+    this.filePath = filePath;
+    this.readOnly = readOnly;
+  }
+
+  load = (): void => {
+    if (!fs.existsSync(this.filePath)) {
+      console.log(`No saved state at ${this.filePath}, starting fresh`);
+      return;
+    }
+
+    const parsed: unknown = JSON.parse(fs.readFileSync(this.filePath, "utf8"));
+    if (!isRecord(parsed))
+      throw new Error(`${this.filePath} doesn't hold saved state`);
+    const { uidValidity, lastUid, ...saved } = parsed;
+    // Fields are trusted as the sync wrote them; missing ones start empty
+    this.state = { ...emptyState(), ...(saved as Partial<State>) };
+
+    // State saved before multiple mailboxes were supported
+    if (typeof lastUid === "number" && !saved.mailboxes)
+      this.state.mailboxes.default = {
+        uidValidity: typeof uidValidity === "number" ? uidValidity : undefined,
+        lastUid,
+      };
+
+    // Dates come back from JSON as strings
+    for (const order of Object.values(this.state.orders)) {
+      order.date = new Date(order.date);
+      order.shipmentDates = order.shipmentDates?.map((d) => new Date(d));
+    }
+
+    console.log(
+      `Loaded saved state: ${this.getOrders().length} orders, ${
+        Object.keys(this.state.transactions).length
+      } transactions, ${Object.keys(this.state.matches).length} matches`
+    );
+  };
+
+  save = (): void => {
+    if (this.readOnly) return;
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    // Write to a temporary file first so a crash never leaves half a file
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(this.state, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  };
+
+  // Returns the UID to resume after, or undefined if the mailbox must be
+  // scanned from scratch (first run, or the server reset its UIDs)
+  resumeUid = (mailbox: string, uidValidity: number): number | undefined => {
+    const progress = (this.state.mailboxes[mailbox] ||= {});
+    if (progress.uidValidity !== uidValidity) {
+      if (progress.uidValidity !== undefined)
+        console.log(
+          `Mailbox "${mailbox}" UID validity changed, rescanning emails...`
+        );
+      progress.uidValidity = uidValidity;
+      progress.lastUid = undefined;
+    }
+    return progress.lastUid;
+  };
+
+  markUidSeen = (mailbox: string, uid: number): void => {
+    const progress = (this.state.mailboxes[mailbox] ||= {});
+    if (uid > (progress.lastUid || 0)) progress.lastUid = uid;
+  };
+
+  hasOrder = (id: string): boolean => id in this.state.orders;
+
+  // Returns false if the order was already stored
+  addOrder = (order: Order): boolean => {
+    if (this.hasOrder(order.id)) return false;
+    if (
+      order.orderNumber &&
+      this.state.canceledOrderNumbers.includes(order.orderNumber)
+    )
+      order.canceled = true;
+    this.state.orders[order.id] = order;
+    return true;
+  };
+
+  findOrderByNumber = (orderNumber: string): Order | undefined =>
+    Object.values(this.state.orders).find(
+      (order) => !order.isRefund && order.orderNumber === orderNumber
+    );
+
+  addShipment = (orderNumber: string, date: Date): void => {
+    const order = this.findOrderByNumber(orderNumber);
+    if (!order) {
+      console.log(`Ignoring shipment of unknown order ${orderNumber}`);
+      return;
+    }
+
+    order.shipmentDates = order.shipmentDates || [];
+    if (order.shipmentDates.some((d) => d.getTime() === date.getTime())) return;
+    order.shipmentDates.push(date);
+    console.log(`Order ${orderNumber} shipped on ${date.toDateString()}`);
+  };
+
+  // Canceled orders are kept, but never matched again
+  cancelOrder = (orderNumber: string): void => {
+    if (!this.state.canceledOrderNumbers.includes(orderNumber))
+      this.state.canceledOrderNumbers.push(orderNumber);
+
+    const order = this.findOrderByNumber(orderNumber);
+    if (order && !order.canceled) {
+      order.canceled = true;
+      console.log(`Order ${orderNumber} was canceled, no longer matching it`);
+    }
+  };
+
+  getOrders = (): Order[] =>
+    Object.values(this.state.orders).sort(
+      (a, b) => a.date.getTime() - b.date.getTime()
+    );
+
+  recordMatch = (
+    transactionId: string,
+    orderId: string,
+    itemIndexes?: number[],
+    written?: WrittenState
+  ): void => {
+    // Linking by hand undoes an earlier unlink
+    const unlinked = this.state.unlinked[transactionId];
+    if (unlinked)
+      this.state.unlinked[transactionId] = unlinked.filter(
+        (id) => id !== orderId
+      );
+    this.state.matches[transactionId] = {
+      orderId,
+      itemIndexes,
+      matchedAt: new Date().toISOString(),
+      written,
+    };
+  };
+
+  // Removes a match and keeps the pair from being matched again
+  unlinkMatch = (transactionId: string): MatchRecord | undefined => {
+    const match = this.state.matches[transactionId];
+    if (!match) return;
+    delete this.state.matches[transactionId];
+    const orderIds = (this.state.unlinked[transactionId] ||= []);
+    if (!orderIds.includes(match.orderId)) orderIds.push(match.orderId);
+    return match;
+  };
+
+  isUnlinked = (transactionId: string, orderId: string): boolean =>
+    !!this.state.unlinked[transactionId]?.includes(orderId);
+
+  // The order was paid by a charge the sync didn't match, so it's never
+  // matched or created
+  settleOrder = (orderId: string, transactionId: string): void => {
+    this.state.settled[orderId] = transactionId;
+  };
+
+  wasUnlinked = (orderId: string): boolean =>
+    Object.values(this.state.unlinked).some((ids) => ids.includes(orderId));
+
+  // Indexes of the order's items that have already been charged
+  getMatchedItemIndexes = (order: Order): Set<number> => {
+    const indexes = new Set<number>();
+    for (const match of Object.values(this.state.matches)) {
+      if (match.orderId !== order.id) continue;
+      (match.itemIndexes || order.items.map((_, i) => i)).forEach((i) =>
+        indexes.add(i)
+      );
+    }
+    return indexes;
+  };
+
+  isOrderMatched = (order: Order): boolean =>
+    this.getMatchedItemIndexes(order).size >= order.items.length;
+}
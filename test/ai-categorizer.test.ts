@@ -0,0 +1,259 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as ynab from "ynab";
+import {
+  inferCategory,
+  isEnabled,
+  parseBatchResponse,
+  parseResponse,
+  setProvider,
+} from "../ai-categorizer.js";
+import {
+  anthropicProvider,
+  CompletionRequest,
+  mapWithConcurrency,
+  RetryableError,
+  withRetries,
+} from "../llm.js";
+
+const categories = [
+  { id: "c1", name: "Pet Food" },
+  { id: "c2", name: "Household" },
+  { id: "c3", name: "Baby" },
+] as ynab.Category[];
+
+// Answers every prompt with the given response, and remembers the prompts
+const stubProvider = (response: string) => {
+  const requests: CompletionRequest[] = [];
+  setProvider({
+    name: "stub",
+    complete: async (request) => {
+      requests.push(request);
+      return response;
+    },
+  });
+  return requests;
+};
+
+describe("inferCategory", () => {
+  it("returns the category the provider picks", async () => {
+    const requests = stubProvider(
+      JSON.stringify({
+        categoryId: "c1",
+        categoryName: "Pet Food",
+        reasoning: "Dog food",
+      })
+    );
+
+    assert.ok(isEnabled());
+    const match = await inferCategory(["Purina Dog Food"], categories, [
+      { memo: "Greenies Dental Treats", categoryName: "Pet Food" },
+    ]);
+    assert.equal(match?.categoryId, "c1");
+    assert.equal(match?.source, "model stub");
+    assert.match(requests[0].prompt, /1\. Purina Dog Food/);
+    assert.match(requests[0].prompt, /Greenies Dental Treats -> Pet Food/);
+  });
+
+  it("rejects categories that don't exist", async () => {
+    stubProvider(JSON.stringify({ categoryId: "c9", categoryName: "Toys" }));
+    assert.equal(await inferCategory(["Lego"], categories), null);
+  });
+
+  it("survives responses that aren't JSON", async () => {
+    stubProvider("Sorry, I can't help with that.");
+    assert.equal(await inferCategory(["Lego"], categories), null);
+  });
+
+  it("does nothing without a provider", async () => {
+    setProvider(null);
+    assert.ok(!isEnabled());
+    assert.equal(await inferCategory(["Lego"], categories), null);
+  });
+});
+
+describe("parseResponse", () => {
+  const items = ["Purina Dog Food", "Pampers Diapers", "Paper Towels"];
+
+  it("keeps the confidence, alternatives and per-item categories", () => {
+    const match = parseResponse(
+      {
+        categoryId: "c1",
+        categoryName: "Pet Food",
+        confidence: 0.55,
+        reasoning: "Mostly pet supplies",
+        alternatives: [
+          { categoryId: "c3", confidence: 0.3 },
+          { categoryId: "c9", confidence: 0.1 },
+          { categoryId: "c1", confidence: 0.55 },
+        ],
+        items: [
+          { index: 1, categoryId: "c1", confidence: 0.95 },
+          { index: 2, categoryId: "c3", confidence: 1.4 },
+        ],
+      },
+      items,
+      categories,
+      "model stub"
+    );
+
+    assert.ok(match);
+    assert.equal(match.confidence, 0.55);
+    assert.deepEqual(match.alternatives, [
+      { categoryId: "c3", categoryName: "Baby", confidence: 0.3 },
+    ]);
+    assert.deepEqual(
+      match.items.map((i) => [i.item, i.categoryName, i.confidence]),
+      [
+        ["Purina Dog Food", "Pet Food", 0.95],
+        ["Pampers Diapers", "Baby", 1],
+        // Left out by the model, so it gets the order's category
+        ["Paper Towels", "Pet Food", 0.55],
+      ]
+    );
+  });
+
+  it("takes a category without a confidence at its word", () => {
+    const match = parseResponse({ categoryId: "c2" }, items, categories, "x");
+    assert.equal(match?.categoryName, "Household");
+    assert.equal(match?.confidence, 1);
+  });
+});
+
+describe("parseBatchResponse", () => {
+  const orders = [["Purina Dog Food"], ["Pampers Diapers"], ["Lego"]];
+
+  it("matches answers to orders by their number", () => {
+    const matches = parseBatchResponse(
+      {
+        orders: [
+          { order: 2, categoryId: "c3" },
+          { order: 1, categoryId: "c1" },
+          { order: 3, categoryId: "c9" },
+        ],
+      },
+      orders,
+      categories,
+      "x"
+    );
+    assert.deepEqual(
+      matches.map((m) => m?.categoryName),
+      ["Pet Food", "Baby", undefined]
+    );
+  });
+
+  it("falls back to the position without numbers", () => {
+    const matches = parseBatchResponse(
+      { orders: [{ categoryId: "c1" }, { categoryId: "c3" }] },
+      orders,
+      categories,
+      "x"
+    );
+    assert.deepEqual(
+      matches.map((m) => m?.categoryName),
+      ["Pet Food", "Baby", undefined]
+    );
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  it("keeps the order of results and the number of tasks running", async () => {
+    let running = 0;
+    let mostRunning = 0;
+    const results = await mapWithConcurrency([5, 1, 3, 2, 4], 2, async (n) => {
+      mostRunning = Math.max(mostRunning, ++running);
+      await new Promise((resolve) => setTimeout(resolve, n));
+      running--;
+      return n * 10;
+    });
+    assert.deepEqual(results, [50, 10, 30, 20, 40]);
+    assert.equal(mostRunning, 2);
+  });
+});
+
+describe("withRetries", () => {
+  it("retries rate limits until the request succeeds", async () => {
+    let attempts = 0;
+    const result = await withRetries(
+      async () => {
+        if (++attempts < 3) throw new RetryableError("429", 1);
+        return "ok";
+      },
+      3,
+      1
+    );
+    assert.equal(result, "ok");
+    assert.equal(attempts, 3);
+  });
+
+  it("gives up after the last retry, or on other errors", async () => {
+    let attempts = 0;
+    await assert.rejects(
+      withRetries(
+        async () => {
+          attempts++;
+          throw new RetryableError("503");
+        },
+        2,
+        1
+      )
+    );
+    assert.equal(attempts, 3);
+
+    attempts = 0;
+    await assert.rejects(
+      withRetries(
+        async () => {
+          attempts++;
+          throw new Error("400");
+        },
+        2,
+        1
+      )
+    );
+    assert.equal(attempts, 1);
+  });
+});
+
+describe("anthropicProvider", () => {
+  // Answers each request with the next reply, and remembers the requests
+  const stubFetch = (replies: { text: string; stop_reason: string }[]) => {
+    const bodies: { max_tokens: number }[] = [];
+    const realFetch = globalThis.fetch;
+    globalThis.fetch = async (_, init) => {
+      bodies.push(JSON.parse(String(init?.body)));
+      const { text, stop_reason } = replies[bodies.length - 1];
+      return new Response(
+        JSON.stringify({ content: [{ type: "text", text }], stop_reason })
+      );
+    };
+    return { bodies, restore: () => (globalThis.fetch = realFetch) };
+  };
+  const provider = anthropicProvider({
+    model: "claude",
+    apiKey: "key",
+    timeout: 1000,
+    maxRetries: 2,
+  });
+
+  it("asks again with more room when the answer is cut off", async () => {
+    const { bodies, restore } = stubFetch([
+      { text: '{"orders": [{"order": 1}, {"ord', stop_reason: "max_tokens" },
+      { text: 'Here: {"orders": []}', stop_reason: "end_turn" },
+    ]);
+    try {
+      const content = await provider.complete({
+        system: "",
+        prompt: "",
+        maxTokens: 3000,
+      });
+      assert.equal(content, '{"orders": []}');
+      assert.deepEqual(
+        bodies.map((b) => b.max_tokens),
+        [3000, 6000]
+      );
+    } finally {
+      restore();
+    }
+  });
+});
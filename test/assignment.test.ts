@@ -0,0 +1,187 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as ynab from "ynab";
+import { assign } from "../assignment.js";
+import YNAB, { Order } from "../ynab.js";
+import { budget, order, transaction } from "./helpers.js";
+
+const sorted = (pairs: { row: number; column: number }[]) =>
+  pairs
+    .map(({ row, column }) => [row, column])
+    .sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+describe("assign", () => {
+  it("makes as many pairs as possible before lowering the cost", () => {
+    // Taking the cheapest pair first would leave row 1 without a column
+    const { pairs, ambiguous } = assign([
+      { row: 0, column: 0, cost: 0 },
+      { row: 0, column: 1, cost: 0.5 },
+      { row: 1, column: 0, cost: 1 },
+    ]);
+    assert.deepEqual(sorted(pairs), [
+      [0, 1],
+      [1, 0],
+    ]);
+    assert.deepEqual(ambiguous, []);
+  });
+
+  it("finds the lowest total cost", () => {
+    const { pairs } = assign([
+      { row: 0, column: 0, cost: 0.3 },
+      { row: 0, column: 1, cost: 0.15 },
+      { row: 1, column: 0, cost: 0.25 },
+      { row: 1, column: 1, cost: 1 },
+      { row: 2, column: 1, cost: 0.1 },
+    ]);
+    // Rows outnumber columns, so one is left over
+    assert.deepEqual(sorted(pairs), [
+      [1, 0],
+      [2, 1],
+    ]);
+  });
+
+  it("holds back pairs another assignment makes just as well", () => {
+    const { pairs, ambiguous } = assign([
+      { row: 0, column: 0, cost: 0 },
+      { row: 1, column: 0, cost: 0 },
+      { row: 2, column: 1, cost: 0 },
+    ]);
+    assert.deepEqual(sorted(pairs), [[2, 1]]);
+    assert.equal(ambiguous.length, 1);
+    assert.deepEqual(
+      [ambiguous[0].column, [ambiguous[0].row, ambiguous[0].otherRow].sort()],
+      [0, [0, 1]]
+    );
+  });
+
+  it("swaps interchangeable rows without calling it ambiguous", () => {
+    const candidates = [0, 1].flatMap((row) =>
+      [0, 1].map((column) => ({ row, column, cost: 0 }))
+    );
+    assert.equal(assign(candidates).ambiguous.length, 2);
+
+    const { pairs, ambiguous } = assign(candidates, () => true);
+    assert.equal(pairs.length, 2);
+    assert.deepEqual(ambiguous, []);
+  });
+});
+
+describe("matchTransactions", () => {
+  const placed = (id: string, date: string, title: string): Order =>
+    order(id, { date: new Date(date), items: [{ title }] });
+
+  const budgetWith = (transactions: [string, string][]): YNAB => {
+    const ynabBudget = budget();
+    for (const [id, date] of transactions)
+      ynabBudget.transactions[id] = transaction(id, { date });
+    return ynabBudget;
+  };
+
+  const matched = (ynabBudget: YNAB, orders: Order[]) =>
+    ynabBudget
+      .matchTransactions(orders)
+      .map((m) => [m.order.id, m.transactionId])
+      .sort();
+
+  it("matches every order it can, not just the closest pair", () => {
+    const ynabBudget = budgetWith([
+      ["t1", "2024-12-01"],
+      ["t2", "2024-12-02"],
+    ]);
+    const orders = [
+      placed("1", "2024-12-01", "Coffee"),
+      placed("2", "2024-11-27", "Tea"),
+    ];
+    assert.deepEqual(matched(ynabBudget, orders), [
+      ["1", "t2"],
+      ["2", "t1"],
+    ]);
+  });
+
+  it("matches refunds to inflows and orders to outflows", () => {
+    const ynabBudget = budgetWith([
+      ["t1", "2024-12-01"],
+      ["t2", "2024-12-01"],
+    ]);
+    ynabBudget.transactions.t2.amount = 10000;
+    const refund = order("2", { isRefund: true, amount: 10000 });
+    assert.deepEqual(
+      matched(ynabBudget, [refund, placed("1", "2024-12-01", "Coffee")]),
+      [
+        ["1", "t1"],
+        ["2", "t2"],
+      ]
+    );
+    assert.deepEqual(matched(budgetWith([["t1", "2024-12-01"]]), [refund]), []);
+  });
+
+  it("matches charges near the order or one of its shipments only", () => {
+    const shipped = order("1", {
+      date: new Date("2024-11-01"),
+      shipmentDates: [new Date("2024-12-01")],
+    });
+    assert.deepEqual(matched(budgetWith([["t1", "2024-12-03"]]), [shipped]), [
+      ["1", "t1"],
+    ]);
+    assert.deepEqual(
+      matched(budgetWith([["t1", "2024-11-16"]]), [shipped]),
+      []
+    );
+  });
+
+  it("leaves reconciled transactions alone", () => {
+    const ynabBudget = budgetWith([["t1", "2024-12-01"]]);
+    ynabBudget.transactions.t1.cleared =
+      ynab.TransactionClearedStatus.Reconciled;
+    assert.deepEqual(
+      matched(ynabBudget, [placed("1", "2024-12-01", "Coffee")]),
+      []
+    );
+  });
+
+  it("doesn't create orders whose charge is left alone", () => {
+    const ynabBudget = budgetWith([["t1", "2024-12-01"]]);
+    ynabBudget.config.createAccountId = "cash";
+    ynabBudget.transactions.t1.cleared =
+      ynab.TransactionClearedStatus.Reconciled;
+    const orders = [placed("1", "2024-12-01", "Coffee")];
+    ynabBudget.matchTransactions(orders);
+    assert.deepEqual(ynabBudget.offLimitsOrders, { 1: ["t1"] });
+    assert.equal(ynabBudget.isDueForCreation(orders[0]), false);
+  });
+
+  it("leaves same-priced orders of different items to the user", () => {
+    const ynabBudget = budgetWith([["t1", "2024-12-01"]]);
+    const orders = [
+      placed("1", "2024-12-01", "Coffee"),
+      placed("2", "2024-12-01", "Tea"),
+    ];
+    assert.deepEqual(matched(ynabBudget, orders), []);
+    assert.deepEqual(ynabBudget.ambiguousOrders, { 1: ["t1"], 2: ["t1"] });
+  });
+
+  it("never creates orders it held back", () => {
+    const ynabBudget = budgetWith([["t1", "2024-12-01"]]);
+    ynabBudget.config.createAccountId = "cash";
+    const orders = [
+      placed("1", "2024-12-01", "Coffee"),
+      placed("2", "2024-12-01", "Tea"),
+    ];
+    assert.ok(orders.every(ynabBudget.isDueForCreation));
+    ynabBudget.matchTransactions(orders);
+    assert.ok(!orders.some(ynabBudget.isDueForCreation));
+  });
+
+  it("matches repeat orders of the same items", () => {
+    const ynabBudget = budgetWith([
+      ["t1", "2024-12-01"],
+      ["t2", "2024-12-01"],
+    ]);
+    const orders = [
+      placed("1", "2024-12-01", "Coffee"),
+      placed("2", "2024-12-01", "Coffee"),
+    ];
+    assert.equal(matched(ynabBudget, orders).length, 2);
+    assert.deepEqual(ynabBudget.ambiguousOrders, {});
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as ynab from "ynab";
+import { setProvider } from "../ai-categorizer.js";
+import {
+  categoryListHash,
+  CategoryMatch,
+  inferCategories,
+} from "../categorizer.js";
+import { CompletionRequest } from "../llm.js";
+
+const categories = [
+  { id: "c1", name: "Pet Food" },
+  { id: "c2", name: "Household" },
+] as ynab.Category[];
+
+// Answers each order of a prompt with Pet Food if it mentions dogs, else
+// Household, and remembers the prompts
+const stubProvider = () => {
+  const requests: CompletionRequest[] = [];
+  setProvider({
+    name: "stub",
+    complete: async (request) => {
+      requests.push(request);
+      const orders = request.prompt
+        .split(/^Order \d+:$/m)
+        .slice(1)
+        .map((text, index) => ({
+          order: index + 1,
+          categoryId: /dog/i.test(text.split("Available Categories")[0])
+            ? "c1"
+            : "c2",
+        }));
+      return JSON.stringify({ orders });
+    },
+  });
+  return requests;
+};
+
+describe("inferCategories", () => {
+  it("categorizes many orders in one request", async () => {
+    const requests = stubProvider();
+    const matches = await inferCategories(
+      [["Purina Dog Food"], ["Paper Towels", "Dish Soap"], ["Dog Leash"]],
+      categories
+    );
+    assert.equal(requests.length, 1);
+    assert.deepEqual(
+      matches.map((m) => m?.categoryName),
+      ["Pet Food", "Household", "Pet Food"]
+    );
+  });
+
+  it("asks only about items it hasn't seen before", async () => {
+    const requests = stubProvider();
+    const cache: Record<string, CategoryMatch> = {};
+
+    await inferCategories([["Purina Dog Food"]], categories, [], cache);
+    const matches = await inferCategories(
+      [["purina  dog food "], ["Paper Towels"], ["Paper Towels"]],
+      categories,
+      [],
+      cache
+    );
+
+    assert.equal(requests.length, 2);
+    assert.doesNotMatch(requests[1].prompt, /Purina/);
+    assert.equal(requests[1].prompt.match(/Paper Towels/g)?.length, 1);
+    assert.deepEqual(
+      matches.map((m) => m?.categoryName),
+      ["Pet Food", "Household", "Household"]
+    );
+  });
+
+  it("forgets cached results when the categories change", async () => {
+    const requests = stubProvider();
+    const cache: Record<string, CategoryMatch> = {};
+    await inferCategories([["Purina Dog Food"]], categories, [], cache);
+
+    const renamed = [
+      { id: "c1", name: "Pets" },
+      categories[1],
+    ] as ynab.Category[];
+    const [match] = await inferCategories(
+      [["Purina Dog Food"]],
+      renamed,
+      [],
+      cache
+    );
+
+    assert.equal(requests.length, 2);
+    assert.equal(match?.categoryName, "Pets");
+    assert.deepEqual(
+      Object.keys(cache).map((key) => key.split(":")[0]),
+      [categoryListHash(renamed)]
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as ynab from "ynab";
+import {
+  CategoryExample,
+  classify,
+  examplesFromTransaction,
+  findSimilarExamples,
+  tokenize,
+} from "../category-examples.js";
+
+const examples: CategoryExample[] = [
+  { memo: "Purina ONE SmartBlend Dry Dog Food", categoryId: "pets" },
+  { memo: "Purina Pro Plan Dog Food, 35 lb", categoryId: "pets" },
+  { memo: "Pampers Swaddlers Diapers Size 1", categoryId: "baby" },
+  { memo: "Bounty Paper Towels, Dog.. (+1 more)", categoryId: "household" },
+];
+
+const transaction = (
+  fields: Partial<ynab.TransactionDetail>
+): ynab.TransactionDetail =>
+  ({
+    id: "t1",
+    memo: null,
+    category_id: null,
+    deleted: false,
+    subtransactions: [],
+    ...fields,
+  } as ynab.TransactionDetail);
+
+describe("tokenize", () => {
+  it("keeps the descriptive words", () => {
+    assert.deepEqual(
+      [...tokenize("#113-7720418-0091466: Purina ONE Dog Food, 40 lb. Bag")],
+      ["purina", "one", "dog", "food", "bag"]
+    );
+  });
+});
+
+describe("findSimilarExamples", () => {
+  it("ranks examples by shared words", () => {
+    const similar = findSimilarExamples(examples, ["Purina Cat Chow"], 2);
+    assert.deepEqual(
+      similar.map((e) => e.categoryId),
+      ["pets", "pets"]
+    );
+    assert.equal(findSimilarExamples(examples, ["Garden Hose"], 5).length, 0);
+  });
+});
+
+describe("classify", () => {
+  it("goes with the category of the most similar purchases", () => {
+    const result = classify(examples, ["Purina ONE Dog Food, 16 lb"], 3);
+    assert.equal(result?.categoryId, "pets");
+    assert.ok(result!.confidence > 0.6);
+  });
+
+  it("gives up when nothing is similar enough", () => {
+    assert.equal(classify(examples, ["Garden Hose, 50 ft"], 3), null);
+    assert.equal(classify(examples, ["Dog Leash, Red"], 3), null);
+  });
+});
+
+describe("examplesFromTransaction", () => {
+  it("learns from memo'd, categorized transactions", () => {
+    assert.deepEqual(
+      examplesFromTransaction(
+        transaction({ memo: "Purina Dog Food", category_id: "pets" })
+      ),
+      { t1: { memo: "Purina Dog Food", categoryId: "pets" } }
+    );
+  });
+
+  it("forgets deleted, uncategorized and filler-memo transactions", () => {
+    for (const fields of [
+      { memo: "Purina Dog Food", category_id: "pets", deleted: true },
+      { memo: "Purina Dog Food" },
+      { memo: "N/A", category_id: "pets" },
+    ])
+      assert.deepEqual(examplesFromTransaction(transaction(fields)), {
+        t1: null,
+      });
+  });
+
+  it("learns from each line of a split", () => {
+    assert.deepEqual(
+      examplesFromTransaction(
+        transaction({
+          category_id: "split",
+          subtransactions: [
+            { id: "s1", memo: "Purina Dog Food", category_id: "pets" },
+            { id: "s2", memo: "Pampers Diapers", category_id: "baby" },
+          ] as ynab.SubTransaction[],
+        })
+      ),
+      {
+        t1: null,
+        "t1/s1": { memo: "Purina Dog Food", categoryId: "pets" },
+        "t1/s2": { memo: "Pampers Diapers", categoryId: "baby" },
+      }
+    );
+  });
+});
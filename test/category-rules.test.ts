@@ -0,0 +1,85 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as ynab from "ynab";
+import { findCategory, findRule, parseRules } from "../category-rules.js";
+
+const ruleSet = parseRules({
+  rules: [
+    { name: "pets", match: ["Purina", "/cat litter/i"], category: "Pet Food" },
+    { name: "baby", match: "Pampers", category: "Baby" },
+    {
+      name: "batteries",
+      match: "/\\bAAA? batter(y|ies)\\b/i",
+      category: "Household",
+      priority: 10,
+    },
+  ],
+  fallback: "Shopping",
+});
+
+describe("findRule", () => {
+  it("matches keywords regardless of case", () => {
+    assert.equal(
+      findRule(ruleSet, ["PURINA ONE SmartBlend Dry Dog Food"])?.name,
+      "pets"
+    );
+  });
+
+  it("matches regular expressions", () => {
+    assert.equal(
+      findRule(ruleSet, ["Fresh Step Clumping Cat Litter, 25 lb"])?.name,
+      "pets"
+    );
+    assert.equal(findRule(ruleSet, ["Cat Tree"]), undefined);
+  });
+
+  it("prefers higher priority rules, then the order in the file", () => {
+    assert.equal(
+      findRule(ruleSet, ["Pampers Swaddlers", "Amazon Basics AA Batteries"])
+        ?.name,
+      "batteries"
+    );
+    assert.equal(
+      findRule(ruleSet, ["Pampers Swaddlers", "Purina Cat Chow"])?.name,
+      "pets"
+    );
+  });
+
+  it("keeps matching the same pattern over and over", () => {
+    const global = parseRules({
+      rules: [{ match: "/towel/gi", category: "Household" }],
+    });
+    for (let i = 0; i < 3; i++)
+      assert.equal(findRule(global, ["Paper Towels"])?.name, "#1");
+  });
+});
+
+describe("parseRules", () => {
+  it("keeps the fallback category", () => {
+    assert.equal(ruleSet.fallback, "Shopping");
+  });
+
+  it("rejects rules without a category or pattern", () => {
+    assert.throws(() => parseRules({ rules: [{ match: "Purina" }] }));
+    assert.throws(() => parseRules({ rules: [{ category: "Pet Food" }] }));
+    assert.throws(() =>
+      parseRules({ rules: [{ match: ["Purina", 3], category: "Pet Food" }] })
+    );
+    assert.throws(() =>
+      parseRules({ rules: [{ match: "Purina", category: 7 }] })
+    );
+  });
+});
+
+describe("findCategory", () => {
+  const categories = [
+    { id: "c1", name: "Pet Food" },
+    { id: "c2", name: "Baby" },
+  ] as ynab.Category[];
+
+  it("finds categories by name or ID", () => {
+    assert.equal(findCategory(categories, "pet food")?.id, "c1");
+    assert.equal(findCategory(categories, "c2")?.name, "Baby");
+    assert.equal(findCategory(categories, "Groceries"), undefined);
+  });
+});
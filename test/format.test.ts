@@ -0,0 +1,29 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { currencyFormat } from "../format.js";
+
+describe("currencyFormat", () => {
+  it("defaults to US dollars", () => {
+    assert.equal(currencyFormat(1234.5, null), "$1,234.50");
+    assert.equal(currencyFormat(-2, null), "-$2.00");
+  });
+
+  it("follows the budget's currency format", () => {
+    const euro = {
+      iso_code: "EUR",
+      example_format: "123.456,78",
+      decimal_digits: 2,
+      decimal_separator: ",",
+      symbol_first: false,
+      group_separator: ".",
+      currency_symbol: "€",
+      display_symbol: true,
+    };
+    assert.equal(currencyFormat(1234.5, euro), "1.234,50€");
+    assert.equal(currencyFormat(-0.5, euro), "-0,50€");
+    assert.equal(
+      currencyFormat(99, { ...euro, display_symbol: false }),
+      "99,00"
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import * as ynab from "ynab";
+import YNAB, { Order } from "../ynab.js";
+import Store from "../store.js";
+import type { BudgetConfig } from "../config.js";
+
+// Fixtures shared by the tests that need a budget, its orders and its
+// transactions
+
+export const order = (id: string, fields: Partial<Order> = {}): Order => ({
+  id,
+  orderNumber: `111-0000000-000000${id}`,
+  date: new Date("2024-12-01"),
+  amount: -10000,
+  items: [{ title: `Item ${id}` }],
+  ...fields,
+});
+
+// An unapproved Amazon charge with a blank memo
+export const transaction = (
+  id: string,
+  fields: Partial<ynab.TransactionDetail> = {}
+): ynab.TransactionDetail => ({
+  id,
+  date: "2024-12-01",
+  amount: -10000,
+  memo: null,
+  cleared: ynab.TransactionClearedStatus.Cleared,
+  approved: false,
+  account_id: "visa",
+  account_name: "Visa",
+  payee_name: "Amazon",
+  deleted: false,
+  subtransactions: [],
+  ...fields,
+});
+
+export const subtransaction = (
+  id: string,
+  fields: Partial<ynab.SubTransaction> = {}
+): ynab.SubTransaction => ({
+  id,
+  transaction_id: "t1",
+  amount: -10000,
+  deleted: false,
+  ...fields,
+});
+
+// A budget named "home" that never reads or writes its files
+export const budget = (
+  store = new Store("/nonexistent/state.json", true),
+  config: Partial<BudgetConfig> = {}
+): YNAB =>
+  new YNAB(
+    {
+      name: "home",
+      token: "token",
+      budgetId: "budget",
+      stateFile: store.filePath,
+      journalFile: "/nonexistent/journal.jsonl",
+      accountIds: [],
+      payeePatterns: ["amazon"],
+      payeeIds: [],
+      createAfterDays: 14,
+      ...config,
+    },
+    store
+  );
@@ -0,0 +1,193 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import Journal, {
+  JournalEntry,
+  listRuns,
+  planReverts,
+  snapshot,
+  TransactionSnapshot,
+} from "../journal.js";
+import { subtransaction, transaction } from "./helpers.js";
+
+const state = (memo: string | null): TransactionSnapshot => ({
+  memo,
+  category_id: null,
+  approved: true,
+  flag_color: null,
+  subtransactions: [],
+});
+
+const entry = (
+  id: string,
+  at: string,
+  fields: Partial<JournalEntry>
+): JournalEntry => ({
+  id,
+  at,
+  runId: "run-1",
+  action: "update",
+  transactionId: "t1",
+  before: state(null),
+  after: state("Item 1"),
+  ...fields,
+});
+
+describe("snapshot", () => {
+  it("keeps the fields a write can change, without deleted splits", () => {
+    const t = transaction("t1", {
+      memo: "",
+      category_id: "c1",
+      flag_color: null,
+      subtransactions: [
+        subtransaction("s1", { amount: -1000, memo: "A", category_id: "c1" }),
+        subtransaction("s2", {
+          amount: -2000,
+          memo: "B",
+          category_id: "c2",
+          deleted: true,
+        }),
+      ],
+    });
+    assert.deepEqual(snapshot(t), {
+      memo: null,
+      category_id: "c1",
+      approved: false,
+      flag_color: null,
+      subtransactions: [{ amount: -1000, memo: "A", category_id: "c1" }],
+    });
+  });
+});
+
+describe("planReverts", () => {
+  const entries = [
+    entry("1", "2024-12-01T10:00:00Z", {}),
+    entry("2", "2024-12-01T10:00:01Z", {
+      transactionId: "t2",
+      action: "create",
+      before: null,
+      after: state("Item 2"),
+    }),
+    entry("3", "2024-12-02T10:00:00Z", {
+      runId: "run-2",
+      transactionId: "t3",
+      after: state("Item 3"),
+    }),
+  ];
+
+  it("selects a whole run", () => {
+    assert.deepEqual(planReverts(entries, { runId: "run-1" }), [
+      {
+        transactionId: "t1",
+        orderId: undefined,
+        original: state(null),
+        expected: state("Item 1"),
+        entryIds: ["1"],
+      },
+      {
+        transactionId: "t2",
+        orderId: undefined,
+        original: null,
+        expected: state("Item 2"),
+        entryIds: ["2"],
+      },
+    ]);
+  });
+
+  it("selects a time range or one transaction", () => {
+    const ids = (selection: Parameters<typeof planReverts>[1]) =>
+      planReverts(entries, selection).map((plan) => plan.transactionId);
+    assert.deepEqual(ids({ since: new Date("2024-12-02") }), ["t3"]);
+    assert.deepEqual(ids({ until: new Date("2024-12-01T10:00:01Z") }), ["t1"]);
+    assert.deepEqual(ids({ transactionId: "t2" }), ["t2"]);
+  });
+
+  it("restores the first value when a transaction was written twice", () => {
+    const plans = planReverts(
+      [
+        ...entries,
+        entry("4", "2024-12-03T10:00:00Z", {
+          runId: "run-3",
+          before: state("Item 1"),
+          after: state("Item 1, Item 4"),
+        }),
+      ],
+      { transactionId: "t1" }
+    );
+    assert.equal(plans.length, 1);
+    assert.deepEqual(plans[0].original, state(null));
+    assert.deepEqual(plans[0].expected, state("Item 1, Item 4"));
+    assert.deepEqual(plans[0].entryIds, ["1", "4"]);
+  });
+
+  it("skips writes that were reverted or written over later", () => {
+    const later = [
+      ...entries,
+      entry("4", "2024-12-03T10:00:00Z", { runId: "run-3" }),
+      entry("5", "2024-12-04T10:00:00Z", {
+        runId: "run-4",
+        action: "revert",
+        transactionId: "t2",
+        before: state("Item 2"),
+        after: null,
+        reverts: ["2"],
+      }),
+    ];
+    assert.deepEqual(planReverts(later, { runId: "run-1" }), []);
+  });
+});
+
+describe("listRuns", () => {
+  it("counts the writes of each run", () => {
+    assert.deepEqual(
+      listRuns([
+        entry("1", "2024-12-01T10:00:00Z", {}),
+        entry("2", "2024-12-01T10:00:01Z", { transactionId: "t2" }),
+        entry("3", "2024-12-02T10:00:00Z", { runId: "run-2" }),
+        entry("4", "2024-12-03T10:00:00Z", {
+          runId: "run-3",
+          action: "unlink",
+        }),
+      ]),
+      [
+        { runId: "run-1", at: "2024-12-01T10:00:00Z", writes: 2 },
+        { runId: "run-2", at: "2024-12-02T10:00:00Z", writes: 1 },
+      ]
+    );
+  });
+});
+
+describe("Journal", () => {
+  it("appends entries and skips a line cut short", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "journal-"));
+    const journal = new Journal(path.join(dir, "data", "journal.jsonl"));
+    journal.append({
+      runId: "run-1",
+      action: "update",
+      transactionId: "t1",
+      before: state(null),
+      after: state("Item 1"),
+    });
+    fs.appendFileSync(journal.filePath, '{"id":"2","at":"20');
+
+    const entries = journal.read();
+    assert.equal(entries.length, 1);
+    assert.equal(entries[0].transactionId, "t1");
+    assert.ok(entries[0].id && entries[0].at);
+    fs.rmSync(dir, { recursive: true });
+  });
+
+  it("never writes when read-only", () => {
+    const journal = new Journal("/nonexistent/journal.jsonl", true);
+    journal.append({
+      runId: "run-1",
+      action: "create",
+      transactionId: "t1",
+      before: null,
+      after: state("Item 1"),
+    });
+    assert.deepEqual(journal.read(), []);
+  });
+});
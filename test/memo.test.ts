@@ -0,0 +1,86 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildMemo, fitItems, MemoFields } from "../memo.js";
+
+const fields: MemoFields = {
+  orderNumber: "113-7720418-0091466",
+  items: ["Bounty Paper Towels", "Anker USB C Charger"],
+  itemCount: 3,
+  total: "$97.38",
+  link: "https://www.amazon.com/gp/your-account/order-details?orderID=113-7720418-0091466",
+};
+
+describe("buildMemo", () => {
+  it("lists the items by default", () => {
+    assert.equal(
+      buildMemo(fields, 200, "{items}"),
+      "Bounty Paper Towels, Anker USB C Charger"
+    );
+  });
+
+  it("fills in every placeholder", () => {
+    assert.equal(
+      buildMemo(
+        fields,
+        200,
+        "#{orderNumber} ({itemCount} items, {total}): {items}"
+      ),
+      "#113-7720418-0091466 (3 items, $97.38): Bounty Paper Towels, Anker USB C Charger"
+    );
+    assert.equal(buildMemo(fields, 200, "{link}"), fields.link);
+  });
+
+  it("keeps replacement patterns in titles as they are", () => {
+    assert.equal(
+      buildMemo(
+        { ...fields, items: ["Tom $& Jerry", "Price $$5 {total}"] },
+        200,
+        "{items}"
+      ),
+      "Tom $& Jerry, Price $$5 {total}"
+    );
+  });
+
+  it("drops separators around a missing order number", () => {
+    assert.equal(
+      buildMemo(
+        { ...fields, orderNumber: undefined },
+        200,
+        "{orderNumber} - {items}"
+      ),
+      "Bounty Paper Towels, Anker USB C Charger"
+    );
+  });
+
+  it("shortens the items to fit the length limit", () => {
+    const memo = buildMemo(
+      {
+        ...fields,
+        items: ["A".repeat(30), "Bounty Quick Size Paper Towels", "C"],
+      },
+      61,
+      "{orderNumber}: {items}"
+    );
+    assert.equal(memo, `113-7720418-0091466: ${"A".repeat(30)} (+2 more)`);
+    assert.ok(memo.length <= 61);
+  });
+});
+
+describe("fitItems", () => {
+  it("keeps whole titles that fit", () => {
+    assert.equal(fitItems(["One", "Two"], 20), "One, Two");
+  });
+
+  it("cuts the last title at a word and counts the rest", () => {
+    const fitted = fitItems(
+      ["Paper Towels", "Purina ONE SmartBlend Dry Dog Food", "Diapers"],
+      45
+    );
+    assert.equal(fitted, "Paper Towels, Purina ONE.. (+1 more)");
+    assert.ok(fitted.length <= 45);
+  });
+
+  it("keeps a word that ends exactly at the cut", () => {
+    assert.equal(fitItems(["Purina ONE SmartBlend"], 12), "Purina ONE..");
+  });
+});
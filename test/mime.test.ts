@@ -0,0 +1,170 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  decodePart,
+  findAttachedMessages,
+  findBodyPart,
+  isStruct,
+  MimePart,
+  Struct,
+} from "../mime.js";
+
+// Structs shaped like the ones node-imap returns with `struct: true`
+const textPart = (
+  partID: string,
+  subtype: string,
+  extra: Partial<MimePart> = {}
+): Struct => [
+  {
+    partID,
+    type: "text",
+    subtype,
+    params: { charset: "utf-8" },
+    encoding: "quoted-printable",
+    ...extra,
+  },
+];
+
+const alternative = (prefix: string): Struct => [
+  { type: "alternative", params: { boundary: "alt" } },
+  textPart(`${prefix}1`, "plain"),
+  textPart(`${prefix}2`, "html"),
+];
+
+const amazonEnvelope = {
+  subject: "Your Amazon.com order #113-7720418-0091466",
+  from: [{ name: "Amazon.com", mailbox: "auto-confirm", host: "amazon.com" }],
+  messageId: "<0100018f.order@email.amazonses.com>",
+};
+
+describe("findBodyPart", () => {
+  it("prefers the HTML part of multipart/alternative", () => {
+    assert.equal(findBodyPart(alternative(""))?.partID, "2");
+  });
+
+  it("falls back to plain text", () => {
+    assert.equal(findBodyPart(textPart("1", "plain"))?.partID, "1");
+  });
+
+  it("skips attachments and attached emails", () => {
+    const struct: Struct = [
+      { type: "mixed", params: null },
+      textPart("1", "plain"),
+      textPart("2", "html", {
+        disposition: { type: "attachment", params: null },
+      }),
+      [
+        {
+          partID: "3",
+          type: "message",
+          subtype: "rfc822",
+          params: null,
+          envelope: amazonEnvelope,
+          body: alternative("3."),
+        },
+      ],
+    ];
+    assert.equal(findBodyPart(struct)?.partID, "1");
+  });
+});
+
+describe("findAttachedMessages", () => {
+  it("finds the body and sender of a forwarded .eml attachment", () => {
+    const struct: Struct = [
+      { type: "mixed", params: null },
+      textPart("1", "plain"),
+      [
+        {
+          partID: "2",
+          type: "message",
+          subtype: "rfc822",
+          params: { name: "order.eml" },
+          envelope: amazonEnvelope,
+          body: alternative("2."),
+        },
+      ],
+    ];
+
+    const [message, ...rest] = findAttachedMessages(struct);
+    assert.equal(rest.length, 0);
+    assert.equal(message.from, '"Amazon.com" <auto-confirm@amazon.com>');
+    assert.equal(message.subject, amazonEnvelope.subject);
+    assert.equal(message.messageId, amazonEnvelope.messageId);
+    assert.equal(message.part.partID, "2.2");
+  });
+
+  it("reads a single-part attached email from its first section", () => {
+    const struct: Struct = [
+      { type: "mixed", params: null },
+      textPart("1", "plain"),
+      [
+        {
+          partID: "2",
+          type: "message",
+          subtype: "rfc822",
+          params: null,
+          envelope: amazonEnvelope,
+          body: textPart("2", "html"),
+        },
+      ],
+    ];
+    assert.equal(findAttachedMessages(struct)[0].part.partID, "2.1");
+  });
+});
+
+describe("isStruct", () => {
+  it("checks the shape of node-imap's structs", () => {
+    assert.ok(isStruct(alternative("")));
+    assert.ok(!isStruct(undefined));
+    assert.ok(!isStruct([]));
+    assert.ok(!isStruct([{ params: null }]));
+    assert.ok(!isStruct([{ type: "mixed", params: null }, { type: "text" }]));
+  });
+});
+
+describe("decodePart", () => {
+  const part = (encoding: string, charset?: string): MimePart => ({
+    type: "text",
+    subtype: "html",
+    params: charset ? { charset } : null,
+    encoding,
+  });
+
+  it("decodes base64", () => {
+    const data = Buffer.from(
+      Buffer.from("<p>Bestellung: Schöne Aussicht</p>").toString("base64")
+    );
+    assert.equal(
+      decodePart(data, part("base64", "UTF-8")),
+      "<p>Bestellung: Schöne Aussicht</p>"
+    );
+  });
+
+  it("decodes quoted-printable in the declared charset", () => {
+    assert.equal(
+      decodePart(
+        Buffer.from("Sch=F6ne Aussicht =A4 12,99"),
+        part("quoted-printable", "iso-8859-15")
+      ),
+      "Schöne Aussicht € 12,99"
+    );
+    assert.equal(
+      decodePart(
+        Buffer.from("Sch=C3=B6ne =\r\nAussicht"),
+        part("quoted-printable", "utf-8")
+      ),
+      "Schöne Aussicht"
+    );
+  });
+
+  it("reads 8bit text as UTF-8 when no charset is given", () => {
+    assert.equal(decodePart(Buffer.from("Schöne"), part("8bit")), "Schöne");
+  });
+
+  it("falls back to UTF-8 for unknown charsets", () => {
+    assert.equal(
+      decodePart(Buffer.from("Schöne"), part("8bit", "x-unknown")),
+      "Schöne"
+    );
+  });
+});
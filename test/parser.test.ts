@@ -0,0 +1,244 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import quotedPrintable from "quoted-printable";
+import {
+  amazonLink,
+  cleanTitle,
+  parseAmount,
+  parseOrderEmail,
+  parseOrderNumber,
+  parseRefundEmail,
+} from "../parser.js";
+
+interface Fixture {
+  subject: string;
+  html: string;
+}
+
+// Fixtures are single-part HTML emails, saved as .eml files
+const readFixture = (name: string): Fixture => {
+  const raw = fs.readFileSync(
+    new URL(`../../test/fixtures/${name}`, import.meta.url),
+    "utf8"
+  );
+  const separator = raw.indexOf("\r\n\r\n");
+  const headers = raw.slice(0, separator);
+  const body = raw.slice(separator + 4);
+
+  const subject = headers.match(/^Subject: (.*)$/m)?.[1].trim() || "";
+  const html = /^Content-Transfer-Encoding: quoted-printable/im.test(headers)
+    ? Buffer.from(quotedPrintable.decode(body), "binary").toString("utf8")
+    : body;
+  return { subject, html };
+};
+
+const sameDay = (date: Date | undefined, expected: string): void =>
+  assert.equal(date?.toDateString(), new Date(expected).toDateString());
+
+describe("parseOrderEmail", () => {
+  it("parses the legacy itemDetails/costBreakdownRight layout", () => {
+    const { subject, html } = readFixture("order-legacy.eml");
+    const order = parseOrderEmail(html, subject);
+
+    assert.ok(order);
+    assert.equal(order.orderNumber, "112-4839201-5573021");
+    assert.equal(order.orderLink, undefined);
+    sameDay(order.orderDate, "March 3, 2019");
+    assert.deepEqual(order.items, [
+      {
+        title:
+          "Purina ONE SmartBlend Natural Adult Dry Dog Food, Lamb & Rice Formula, 40 lb. Bag",
+        quantity: 1,
+        price: 39.98,
+      },
+      {
+        title:
+          "Pampers Swaddlers Disposable Baby Diapers Size 1, 198 Count, ONE MONTH SUPPLY (Packaging..",
+        quantity: 2,
+        price: 99.98,
+      },
+    ]);
+    assert.equal(order.subtotal, 139.96);
+    assert.equal(order.shipping, 0);
+    assert.equal(order.tax, 11.2);
+    assert.equal(order.discounts, undefined);
+    assert.equal(order.grandTotal, 151.16);
+  });
+
+  it("parses the current layout with product links", () => {
+    const { subject, html } = readFixture("order-current.eml");
+    const order = parseOrderEmail(html, subject);
+
+    assert.ok(order);
+    assert.equal(order.orderNumber, "113-7720418-0091466");
+    assert.equal(
+      order.orderLink,
+      "https://www.amazon.com/gp/your-account/order-details?orderID=113-7720418-0091466"
+    );
+    sameDay(order.orderDate, "November 14, 2024");
+    assert.deepEqual(order.items, [
+      {
+        title:
+          "Anker USB C Charger, 735 Charger (Nano II 65W), PPS 3-Port Fast..",
+        quantity: 2,
+        price: 71.98,
+      },
+      {
+        title: "Bounty Quick Size Paper Towels, White, 8 Family Rolls",
+        quantity: 1,
+        price: 24.49,
+      },
+    ]);
+    assert.equal(order.subtotal, 96.47);
+    assert.equal(order.shipping, 5.99);
+    assert.equal(order.tax, 7.42);
+    assert.equal(order.discounts, 12.5);
+    assert.equal(order.grandTotal, 97.38);
+  });
+
+  it("parses forwarded mail with x_ prefixed attributes", () => {
+    const { subject, html } = readFixture("order-forwarded.eml");
+    const order = parseOrderEmail(html, subject);
+
+    assert.ok(order);
+    assert.equal(order.orderNumber, "114-2209135-6630617");
+    sameDay(order.orderDate, "June 7, 2024");
+    assert.deepEqual(
+      order.items.map((item) => item.price),
+      [1024, 8.99]
+    );
+    assert.equal(order.subtotal, 1032.99);
+    assert.equal(order.tax, 82.64);
+    assert.equal(order.grandTotal, 1115.63);
+  });
+
+  it("parses euro amounts from the German storefront", () => {
+    const { html } = readFixture("order-amazon-de.eml");
+    const order = parseOrderEmail(html);
+
+    assert.ok(order);
+    assert.equal(order.orderNumber, "302-5518840-2261937");
+    assert.deepEqual(order.items, [
+      {
+        title: "Ravensburger Puzzle 1000 Teile – Schöne Aussicht",
+        quantity: 1,
+        price: 12.99,
+      },
+      {
+        title: "Bosch Professional Akkuschrauber GSR 12V-15",
+        quantity: 1,
+        price: 1089,
+      },
+    ]);
+    assert.equal(order.subtotal, 1101.99);
+    assert.equal(order.shipping, 0);
+    assert.equal(order.grandTotal, 1101.99);
+  });
+
+  it("parses the gift card, points and promo credits paid", () => {
+    const { subject, html } = readFixture("order-gift-card.eml");
+    const order = parseOrderEmail(html, subject);
+
+    assert.ok(order);
+    assert.equal(order.orderNumber, "111-3058172-4409218");
+    assert.equal(order.discounts, 20);
+    assert.equal(order.grandTotal, 172.78);
+    assert.equal(order.giftCard, 50);
+    assert.equal(order.points, 12.35);
+    assert.equal(order.promoCredits, 5);
+    assert.equal(order.charged, 105.43);
+  });
+
+  it("prefers the amount the email says was charged", () => {
+    const order = parseOrderEmail(`
+      <a href="https://www.amazon.com/dp/B01">A thing</a>
+      <table>
+        <tr><td>Grand Total:</td><td>$40.00</td></tr>
+        <tr><td>Amazon Balance Applied:</td><td>-$15.00</td></tr>
+        <tr><td>Amount charged to Visa ending in 1234:</td><td>$25.00</td></tr>
+      </table>`);
+
+    assert.ok(order);
+    assert.equal(order.giftCard, 15);
+    assert.equal(order.charged, 25);
+  });
+
+  it("leaves the charged amount out without balances", () => {
+    const { subject, html } = readFixture("order-current.eml");
+    assert.equal(parseOrderEmail(html, subject)?.charged, undefined);
+  });
+
+  it("ignores emails without items or a total", () => {
+    assert.equal(
+      parseOrderEmail("<p>Your package was delivered.</p>"),
+      undefined
+    );
+    assert.equal(
+      parseOrderEmail('<a href="https://www.amazon.com/dp/B01">A thing</a>'),
+      undefined
+    );
+  });
+});
+
+describe("parseRefundEmail", () => {
+  it("parses the refund total, order number and items", () => {
+    const { subject, html } = readFixture("refund.eml");
+    const refund = parseRefundEmail(html, subject);
+
+    assert.ok(refund);
+    assert.equal(refund.orderNumber, "113-7720418-0091466");
+    assert.equal(refund.total, 26.51);
+    assert.deepEqual(
+      refund.items.map((item) => item.title),
+      ["Bounty Quick Size Paper Towels, White.."]
+    );
+  });
+});
+
+describe("helpers", () => {
+  it("parses amounts with thousands separators", () => {
+    assert.equal(parseAmount("Total: $1,234.56"), 1234.56);
+    assert.equal(parseAmount("-$2.50"), 2.5);
+    assert.equal(parseAmount("No amount here"), undefined);
+  });
+
+  it("parses amounts from other storefronts", () => {
+    assert.equal(parseAmount("Order Total: £23.10"), 23.1);
+    assert.equal(parseAmount("Order Total: CDN$ 1,045.20"), 1045.2);
+    assert.equal(parseAmount("Gesamtsumme: 12,34 €"), 12.34);
+    assert.equal(parseAmount("Summe: EUR 1.234,56"), 1234.56);
+    assert.equal(parseAmount("Quantity: 2 - 3.50"), undefined);
+  });
+
+  it("shortens truncated titles to whole words", () => {
+    assert.equal(
+      cleanTitle("Paper Towels, White, 8 Fam..."),
+      "Paper Towels, White, 8.."
+    );
+    assert.equal(cleanTitle("  Paper   Towels "), "Paper Towels");
+  });
+
+  it("prefers the order number in the subject", () => {
+    assert.equal(
+      parseOrderNumber(
+        "<p>Order 111-0000000-0000000</p>",
+        "Shipped: order #D01-1234567-7654321"
+      ),
+      "D01-1234567-7654321"
+    );
+  });
+});
+
+describe("amazonLink", () => {
+  it("keeps https links to Amazon sites only", () => {
+    const link =
+      "https://www.amazon.co.uk/gp/your-account/order-details?orderID=1";
+    assert.equal(amazonLink(link), link);
+    assert.equal(amazonLink("javascript:alert(1)//amazon.com"), undefined);
+    assert.equal(amazonLink("http://www.amazon.com/order-details"), undefined);
+    assert.equal(amazonLink("https://amazon.com.evil.example/"), undefined);
+    assert.equal(amazonLink("https://notamazon.com/order-details"), undefined);
+    assert.equal(amazonLink("order-details"), undefined);
+  });
+});
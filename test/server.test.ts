@@ -0,0 +1,153 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import Store from "../store.js";
+import { handleRequest, ServerContext } from "../server.js";
+import { asList, asRecord, asString } from "../json.js";
+import { budget, order, transaction } from "./helpers.js";
+
+// A budget with one matched order, one pending order and one order paid in
+// full with a gift card
+const context = (): ServerContext & { rescans: number } => {
+  const store = new Store("/nonexistent/state.json", true);
+  for (const o of [
+    order("1"),
+    order("2", { amount: -25000, date: new Date("2024-12-05") }),
+    order("3", { amount: 0, date: new Date("2024-12-06") }),
+  ])
+    store.addOrder(o);
+  store.recordMatch("t1", "1");
+
+  const home = budget(store);
+  home.transactions = {
+    t1: transaction("t1", { date: "2024-12-02", memo: "Item 1" }),
+    t2: transaction("t2", { amount: -24000, date: "2024-12-07" }),
+  };
+
+  const result = {
+    budgets: { home },
+    rescans: 0,
+    rescan: async () => {
+      result.rescans++;
+    },
+  };
+  return result;
+};
+
+const get = async (ctx: ServerContext, url: string) => {
+  const response = await handleRequest(ctx, "GET", url, "", "");
+  const body: unknown = JSON.parse(response.body);
+  return { status: response.status, body };
+};
+
+// The fields of each object in a listing
+const rows = (body: unknown): Record<string, unknown>[] =>
+  asList(body).map(asRecord);
+
+const errorOf = (response: { body: string }): string =>
+  asString(asRecord(JSON.parse(response.body)).error) || "";
+
+describe("handleRequest", () => {
+  it("lists orders with their match state", async () => {
+    const { status, body } = await get(context(), "/api/budgets/home/orders");
+    assert.equal(status, 200);
+    assert.deepEqual(
+      rows(body).map((o) => [o.id, o.status, o.transactionIds]),
+      [
+        ["3", "no charge", []],
+        ["2", "pending", []],
+        ["1", "matched", ["t1"]],
+      ]
+    );
+  });
+
+  it("lists transactions with the order they matched", async () => {
+    const { body } = await get(context(), "/api/budgets/home/transactions");
+    assert.deepEqual(
+      rows(body).map((t) => [t.id, t.orderId]),
+      [
+        ["t2", undefined],
+        ["t1", "1"],
+      ]
+    );
+  });
+
+  it("summarizes each budget", async () => {
+    const { body } = await get(context(), "/api/budgets");
+    assert.deepEqual(body, [
+      {
+        name: "home",
+        orders: 3,
+        pendingOrders: 1,
+        transactions: 2,
+        matches: 1,
+      },
+    ]);
+  });
+
+  it("rescans the mailboxes", async () => {
+    const ctx = context();
+    const response = await handleRequest(
+      ctx,
+      "POST",
+      "/api/rescan",
+      "application/json",
+      ""
+    );
+    assert.equal(response.status, 200);
+    assert.equal(ctx.rescans, 1);
+  });
+
+  it("only accepts changes sent as JSON", async () => {
+    const ctx = context();
+    const response = await handleRequest(
+      ctx,
+      "POST",
+      "/api/rescan",
+      "text/plain",
+      ""
+    );
+    assert.equal(response.status, 415);
+    assert.equal(ctx.rescans, 0);
+  });
+
+  it("rejects bad requests", async () => {
+    const ctx = context();
+    assert.equal((await get(ctx, "/api/budgets/work/orders")).status, 404);
+    assert.equal((await get(ctx, "/api/nothing")).status, 404);
+
+    const link = await handleRequest(
+      ctx,
+      "POST",
+      "/api/budgets/home/links",
+      "application/json",
+      JSON.stringify({ orderId: "2" })
+    );
+    assert.equal(link.status, 400);
+
+    const list = await handleRequest(
+      ctx,
+      "POST",
+      "/api/budgets/home/links",
+      "application/json",
+      JSON.stringify(["2", "t2"])
+    );
+    assert.equal(list.status, 400);
+    assert.match(errorOf(list), /JSON object/);
+
+    const unlink = await handleRequest(
+      ctx,
+      "DELETE",
+      "/api/budgets/home/links/t2",
+      "application/json",
+      ""
+    );
+    assert.equal(unlink.status, 400);
+    assert.match(errorOf(unlink), /isn't matched/);
+  });
+
+  it("serves the dashboard", async () => {
+    const response = await handleRequest(context(), "GET", "/", "", "");
+    assert.equal(response.type, "text/html");
+    assert.match(response.body, /<title>Amazon YNAB Sync<\/title>/);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { findChargeSet, findItemSubset, partitionItems } from "../shipments.js";
+
+const charge = (id: string, amount: number) => ({ id, amount });
+const item = (index: number, amount: number) => ({ index, amount });
+
+describe("findChargeSet", () => {
+  it("finds charges that add up to the order total", () => {
+    const charges = [
+      charge("a", 12000),
+      charge("b", 5000),
+      charge("c", 8000),
+      charge("d", 3000),
+    ];
+    assert.deepEqual(
+      findChargeSet(20000, charges, 0)?.map((c) => c.id),
+      ["a", "c"]
+    );
+  });
+
+  it("prefers fewer charges", () => {
+    const charges = [
+      charge("a", 2000),
+      charge("b", 3000),
+      charge("c", 5000),
+      charge("d", 5000),
+    ];
+    assert.deepEqual(
+      findChargeSet(10000, charges, 0)?.map((c) => c.id),
+      ["c", "d"]
+    );
+  });
+
+  it("allows the tolerance and never uses a single charge", () => {
+    assert.deepEqual(
+      findChargeSet(10000, [charge("a", 4990), charge("b", 5000)], 10)?.map(
+        (c) => c.id
+      ),
+      ["a", "b"]
+    );
+    assert.equal(findChargeSet(10000, [charge("a", 10000)], 0), null);
+    assert.equal(
+      findChargeSet(10000, [charge("a", 4000), charge("b", 5000)], 10),
+      null
+    );
+  });
+});
+
+describe("partitionItems", () => {
+  it("assigns each item to the charge its scaled price covers", () => {
+    // 10% tax on every item
+    const items = [item(0, 10000), item(1, 2000), item(2, 5000)];
+    assert.deepEqual(partitionItems(items, [7700, 11000], 1.1, 10), [
+      [1, 2],
+      [0],
+    ]);
+  });
+
+  it("returns null when no assignment fits", () => {
+    const items = [item(0, 10000), item(1, 2000)];
+    assert.equal(partitionItems(items, [6000, 6000], 1, 10), null);
+  });
+});
+
+describe("findItemSubset", () => {
+  it("finds the items a partial shipment charge covers", () => {
+    const items = [item(0, 10000), item(1, 2000), item(2, 5000)];
+    assert.deepEqual(findItemSubset(items, 13200, 1.1, 10), [0, 1]);
+  });
+
+  it("skips the whole order and single items", () => {
+    const items = [item(0, 10000), item(1, 2000)];
+    assert.equal(findItemSubset(items, 12000, 1, 0), null);
+    assert.equal(findItemSubset([item(0, 10000)], 10000, 1, 0), null);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import Store from "../store.js";
+import { order } from "./helpers.js";
+
+// A store whose state file holds the given JSON, in a fresh directory
+const saved = (contents: unknown): Store => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "store-"));
+  const filePath = path.join(dir, "state.json");
+  fs.writeFileSync(filePath, JSON.stringify(contents));
+  return new Store(filePath);
+};
+
+const loaded = (contents: unknown): Store => {
+  const store = saved(contents);
+  store.load();
+  return store;
+};
+
+const cleanUp = (store: Store): void =>
+  fs.rmSync(path.dirname(store.filePath), { recursive: true });
+
+describe("load", () => {
+  it("reads back what save wrote, with dates revived", () => {
+    const store = loaded({});
+    store.addOrder(
+      order("1", {
+        date: new Date("2024-12-01T10:00:00Z"),
+        shipmentDates: [new Date("2024-12-03T10:00:00Z")],
+      })
+    );
+    store.recordMatch("t1", "1");
+    store.save();
+
+    const reopened = new Store(store.filePath);
+    reopened.load();
+    const [reloaded] = reopened.getOrders();
+    assert.ok(reloaded.date instanceof Date);
+    assert.equal(reloaded.date.toISOString(), "2024-12-01T10:00:00.000Z");
+    assert.deepEqual(reloaded.shipmentDates, [
+      new Date("2024-12-03T10:00:00Z"),
+    ]);
+    assert.equal(reopened.state.matches.t1.orderId, "1");
+    cleanUp(store);
+  });
+
+  it("moves the progress of older state to the default mailbox", () => {
+    const store = loaded({ uidValidity: 7, lastUid: 42, orders: {} });
+    assert.deepEqual(store.state.mailboxes, {
+      default: { uidValidity: 7, lastUid: 42 },
+    });
+    assert.deepEqual(store.state.canceledOrderNumbers, []);
+    assert.equal("lastUid" in store.state, false);
+    cleanUp(store);
+  });
+
+  it("keeps the mailboxes of newer state", () => {
+    const mailboxes = { work: { uidValidity: 1, lastUid: 5 } };
+    const store = loaded({ mailboxes });
+    assert.deepEqual(store.state.mailboxes, mailboxes);
+    cleanUp(store);
+  });
+
+  it("rejects files that don't hold an object", () => {
+    for (const contents of [null, [], "state"]) {
+      const store = saved(contents);
+      assert.throws(store.load, /doesn't hold saved state/);
+      cleanUp(store);
+    }
+  });
+});
+
+describe("resumeUid", () => {
+  it("resumes after the last UID seen until the UID validity changes", () => {
+    const store = new Store("/nonexistent/state.json", true);
+    assert.equal(store.resumeUid("default", 7), undefined);
+    store.markUidSeen("default", 42);
+    store.markUidSeen("default", 40);
+    assert.equal(store.resumeUid("default", 7), 42);
+
+    assert.equal(store.resumeUid("default", 8), undefined);
+    assert.equal(store.state.mailboxes.default.uidValidity, 8);
+  });
+});
+
+describe("cancelOrder", () => {
+  it("cancels orders whose email comes after the cancellation", () => {
+    const store = new Store("/nonexistent/state.json", true);
+    store.cancelOrder("111-0000000-0000001");
+    store.addOrder(order("1"));
+    store.addOrder(order("2"));
+    assert.equal(store.state.orders["1"].canceled, true);
+    assert.equal(store.state.orders["2"].canceled, undefined);
+
+    store.cancelOrder("111-0000000-0000002");
+    assert.equal(store.state.orders["2"].canceled, true);
+  });
+});
+
+describe("addShipment", () => {
+  it("adds each shipment date once", () => {
+    const store = new Store("/nonexistent/state.json", true);
+    store.addOrder(order("1"));
+    store.addShipment("111-0000000-0000001", new Date("2024-12-03"));
+    store.addShipment("111-0000000-0000001", new Date("2024-12-03"));
+    store.addShipment("111-0000000-0000001", new Date("2024-12-05"));
+    assert.deepEqual(store.state.orders["1"].shipmentDates, [
+      new Date("2024-12-03"),
+      new Date("2024-12-05"),
+    ]);
+  });
+
+  it("ignores shipments of refunds and unknown orders", () => {
+    const store = new Store("/nonexistent/state.json", true);
+    store.addOrder(order("1", { isRefund: true, amount: 10000 }));
+    store.addShipment("111-0000000-0000001", new Date("2024-12-03"));
+    assert.equal(store.state.orders["1"].shipmentDates, undefined);
+  });
+});
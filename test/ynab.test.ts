@@ -0,0 +1,354 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as ynab from "ynab";
+import YNAB, { setWritePolicy } from "../ynab.js";
+import { setProvider } from "../ai-categorizer.js";
+import { budget, order, transaction } from "./helpers.js";
+
+// A budget with a blank Amazon transaction and one matched to order 1
+const coffeeBudget = (): YNAB => {
+  const ynabBudget = budget();
+  ynabBudget.store.addOrder(order("1", { items: [{ title: "Coffee" }] }));
+  ynabBudget.store.recordMatch("t2", "1");
+  ynabBudget.transactions = {
+    t1: transaction("t1"),
+    t2: transaction("t2", { memo: "Coffee" }),
+  };
+  return ynabBudget;
+};
+
+describe("applyTransactionChange", () => {
+  it("caches new blank Amazon transactions only", () => {
+    const ynabBudget = coffeeBudget();
+    ynabBudget.applyTransactionChange(transaction("t3"));
+    ynabBudget.applyTransactionChange(
+      transaction("t4", { payee_name: "Grocery" })
+    );
+    ynabBudget.applyTransactionChange(transaction("t5", { memo: "Gift" }));
+    assert.deepEqual(Object.keys(ynabBudget.transactions), ["t1", "t2", "t3"]);
+  });
+
+  it("drops transactions given a memo, deleted or renamed elsewhere", () => {
+    for (const change of [
+      { memo: "Birthday present" },
+      { deleted: true },
+      { payee_name: "Grocery" },
+    ]) {
+      const ynabBudget = coffeeBudget();
+      ynabBudget.applyTransactionChange(transaction("t1", change));
+      assert.equal(ynabBudget.transactions.t1, undefined);
+    }
+  });
+
+  it("keeps matched transactions up to date while they have a memo", () => {
+    const ynabBudget = coffeeBudget();
+    ynabBudget.applyTransactionChange(
+      transaction("t2", { memo: "Coffee beans" })
+    );
+    assert.equal(ynabBudget.transactions.t2.memo, "Coffee beans");
+    assert.equal(ynabBudget.store.state.matches.t2.orderId, "1");
+  });
+
+  it("unlinks the order of a matched transaction that changed", () => {
+    for (const change of [
+      { memo: null },
+      { memo: "Coffee", deleted: true },
+      { memo: "Coffee", payee_name: "Grocery" },
+    ]) {
+      const ynabBudget = coffeeBudget();
+      ynabBudget.applyTransactionChange(transaction("t2", change));
+      assert.equal(ynabBudget.store.state.matches.t2, undefined);
+      assert.ok(ynabBudget.store.isUnlinked("t2", "1"));
+      assert.ok(ynabBudget.pendingShare(ynabBudget.store.state.orders["1"]));
+      // A cleared memo makes it free to match other orders
+      assert.equal(!!ynabBudget.transactions.t2, change.memo === null);
+    }
+  });
+});
+
+describe("isAmazonTransaction", () => {
+  it("matches payee names by pattern, or payees by ID", () => {
+    const ynabBudget = budget(undefined, {
+      payeePatterns: ["amazon", "^amzn mktp"],
+      payeeIds: ["p1"],
+    });
+    const isAmazon = (fields: Partial<ynab.TransactionDetail>) =>
+      ynabBudget.isAmazonTransaction(transaction("t1", fields));
+    assert.ok(isAmazon({ payee_name: "AMAZON.COM" }));
+    assert.ok(isAmazon({ payee_name: "AMZN Mktp US" }));
+    assert.ok(!isAmazon({ payee_name: "Paid AMZN Mktp" }));
+    assert.ok(isAmazon({ payee_name: "Online store", payee_id: "p1" }));
+    assert.ok(!isAmazon({ payee_name: "Grocery", payee_id: "p2" }));
+    assert.ok(!isAmazon({ payee_name: null }));
+  });
+
+  it("only takes transactions from the configured accounts", () => {
+    const ynabBudget = budget(undefined, { accountIds: ["visa"] });
+    assert.ok(ynabBudget.isAmazonTransaction(transaction("t1")));
+    assert.ok(
+      !ynabBudget.isAmazonTransaction(
+        transaction("t2", { account_id: "checking" })
+      )
+    );
+  });
+});
+
+describe("requestTransactions", () => {
+  it("asks each configured account, resuming from the oldest knowledge", async () => {
+    const ynabBudget = budget(undefined, { accountIds: ["visa", "amex"] });
+    ynabBudget.budget = { id: "budget", name: "Home" };
+    const requests: [string, string | undefined, number | undefined][] = [];
+    ynabBudget.api.transactions.getTransactionsByAccount = async (
+      _,
+      accountId,
+      sinceDate,
+      __,
+      knowledge
+    ) => {
+      requests.push([accountId, sinceDate, knowledge]);
+      return {
+        data: {
+          transactions: [
+            transaction(`${accountId}-1`, { account_id: accountId }),
+          ],
+          server_knowledge: accountId === "visa" ? 12 : 10,
+        },
+      };
+    };
+
+    const { transactions, server_knowledge } =
+      await ynabBudget.requestTransactions("2024-12-01", 5);
+    assert.deepEqual(requests, [
+      ["visa", "2024-12-01", 5],
+      ["amex", "2024-12-01", 5],
+    ]);
+    assert.deepEqual(
+      transactions.map((t) => t.id),
+      ["visa-1", "amex-1"]
+    );
+    assert.equal(server_knowledge, 10);
+  });
+
+  it("asks for the whole budget without configured accounts", async () => {
+    const ynabBudget = budget();
+    ynabBudget.budget = { id: "budget", name: "Home" };
+    let requests = 0;
+    ynabBudget.api.transactions.getTransactions = async () => {
+      requests++;
+      return { data: { transactions: [], server_knowledge: 3 } };
+    };
+    ynabBudget.api.transactions.getTransactionsByAccount = async () => {
+      throw new Error("not expected");
+    };
+    const { server_knowledge } = await ynabBudget.requestTransactions(
+      undefined
+    );
+    assert.equal(requests, 1);
+    assert.equal(server_knowledge, 3);
+  });
+});
+
+describe("prettyTransaction", () => {
+  it("uses each budget's own currency", () => {
+    const euro = {
+      iso_code: "EUR",
+      example_format: "123.456,78",
+      decimal_digits: 2,
+      decimal_separator: ",",
+      symbol_first: false,
+      group_separator: ".",
+      currency_symbol: "€",
+      display_symbol: true,
+    };
+    const home = coffeeBudget();
+    const work = coffeeBudget();
+    home.budget = { id: "home", name: "Home" };
+    work.budget = { id: "work", name: "Work", currency_format: euro };
+    const t = transaction("t1", { amount: -1234500 });
+    assert.equal(
+      home.prettyTransaction(t),
+      "Amazon transaction on 2024-12-01 of -$1,234.50"
+    );
+    assert.equal(
+      work.prettyTransaction(t),
+      "Amazon transaction on 2024-12-01 of -1.234,50€"
+    );
+  });
+});
+
+describe("learnExamples", () => {
+  const written = { categoryIds: ["groceries"], approved: false };
+  const learned = (t: ynab.TransactionDetail) => {
+    const ynabBudget = coffeeBudget();
+    ynabBudget.store.recordMatch("t2", "1", undefined, written);
+    ynabBudget.learnExamples([t]);
+    return Object.keys(ynabBudget.store.state.examples);
+  };
+  const synced = { memo: "Coffee", category_id: "groceries" };
+
+  it("skips categories the sync set until the user reviews them", () => {
+    assert.deepEqual(learned(transaction("t2", synced)), []);
+    assert.deepEqual(
+      learned(transaction("t2", { ...synced, approved: true })),
+      ["t2"]
+    );
+    assert.deepEqual(
+      learned(transaction("t2", { ...synced, category_id: "household" })),
+      ["t2"]
+    );
+  });
+
+  it("learns from transactions the sync never wrote", () => {
+    assert.deepEqual(learned(transaction("t1", synced)), ["t1"]);
+  });
+});
+
+describe("findMemoCharge", () => {
+  const share = { itemIndexes: [0], amount: -10000, partial: false };
+  const found = (fields: Partial<ynab.TransactionDetail>) => {
+    const ynabBudget = coffeeBudget();
+    const order = ynabBudget.store.state.orders["1"];
+    return ynabBudget.findMemoCharge(order, share, [transaction("t3", fields)])
+      ?.id;
+  };
+
+  it("finds charges of the order that were given a memo by hand", () => {
+    assert.equal(found({ memo: "Birthday present" }), "t3");
+    assert.equal(
+      found({ memo: "N/A", date: "2024-12-04", amount: -10200 }),
+      "t3"
+    );
+  });
+
+  it("skips blank, matched and far off charges", () => {
+    assert.equal(found({}), undefined);
+    assert.equal(found({ memo: "Gift", date: "2024-12-20" }), undefined);
+    assert.equal(found({ memo: "Gift", amount: -20000 }), undefined);
+    assert.equal(found({ memo: "Gift", amount: 10000 }), undefined);
+    assert.equal(found({ memo: "Gift", payee_name: "Grocery" }), undefined);
+
+    const ynabBudget = coffeeBudget();
+    const order = ynabBudget.store.state.orders["1"];
+    const matched = transaction("t2", { memo: "Coffee" });
+    assert.equal(ynabBudget.findMemoCharge(order, share, [matched]), undefined);
+  });
+});
+
+describe("createTransactions", () => {
+  it("remembers orders found paid, so later syncs don't look again", async () => {
+    const ynabBudget = budget(undefined, { createAccountId: "cash" });
+    ynabBudget.budget = { id: "budget", name: "Home" };
+    const date = new Date(Date.now() - 30 * 86400 * 1000);
+    const paid = order("1", { date });
+    ynabBudget.store.addOrder(paid);
+
+    let requests = 0;
+    ynabBudget.api.transactions.getTransactions = async () => {
+      requests++;
+      const charge = transaction("t3", {
+        date: date.toISOString().split("T")[0],
+        memo: "Birthday present",
+      });
+      return { data: { transactions: [charge], server_knowledge: 1 } };
+    };
+    await ynabBudget.createTransactions([paid]);
+    await ynabBudget.createTransactions([paid]);
+    assert.equal(requests, 1);
+    assert.equal(ynabBudget.store.state.settled["1"], "t3");
+    assert.equal(ynabBudget.pendingShare(paid), null);
+  });
+});
+
+describe("write policy", () => {
+  afterEach(() => {
+    setWritePolicy();
+    setProvider(null);
+  });
+
+  const canMatch = (fields: Partial<ynab.TransactionDetail>): boolean => {
+    const ynabBudget = coffeeBudget();
+    const order = ynabBudget.store.state.orders["1"];
+    return ynabBudget.canMatch(order, transaction("t3", fields));
+  };
+
+  // The update for order 1 on t1, categorized with the given confidence
+  const update = (confidence?: number): ynab.SaveTransactionWithId => {
+    const ynabBudget = coffeeBudget();
+    ynabBudget.budget = { id: "budget", name: "Home" };
+    const order = ynabBudget.store.state.orders["1"];
+    if (confidence === undefined)
+      return ynabBudget.buildTransactionUpdate({ transactionId: "t1", order }, [
+        null,
+      ]);
+
+    setProvider({ name: "stub", complete: async () => "" });
+    ynabBudget.categories = [{ id: "c1", name: "Coffee" } as ynab.Category];
+    const category = { categoryId: "c1", categoryName: "Coffee", confidence };
+    return ynabBudget.buildTransactionUpdate({ transactionId: "t1", order }, [
+      {
+        ...category,
+        reasoning: "",
+        source: "stub",
+        alternatives: [],
+        items: [{ ...category, item: "Coffee", source: "stub" }],
+      },
+    ]);
+  };
+
+  it("leaves reconciled transactions alone unless told not to", () => {
+    const reconciled = { cleared: ynab.TransactionClearedStatus.Reconciled };
+    assert.equal(canMatch(reconciled), false);
+    setWritePolicy({ skipReconciled: false });
+    assert.equal(canMatch(reconciled), true);
+  });
+
+  it("skips transactions with a skipped flag", () => {
+    setWritePolicy({ skipFlags: [ynab.TransactionFlagColor.Red] });
+    assert.equal(
+      canMatch({ flag_color: ynab.TransactionFlagColor.Red }),
+      false
+    );
+    assert.equal(
+      canMatch({ flag_color: ynab.TransactionFlagColor.Blue }),
+      true
+    );
+    assert.equal(canMatch({}), true);
+  });
+
+  it("only matches transactions with one of the only flags", () => {
+    setWritePolicy({ onlyFlags: [ynab.TransactionFlagColor.Green] });
+    assert.equal(
+      canMatch({ flag_color: ynab.TransactionFlagColor.Green }),
+      true
+    );
+    assert.equal(
+      canMatch({ flag_color: ynab.TransactionFlagColor.Red }),
+      false
+    );
+    assert.equal(canMatch({}), false);
+  });
+
+  it("keeps the approval unless told to unapprove", () => {
+    assert.equal(update().approved, undefined);
+    setWritePolicy({ approval: "unapprove" });
+    assert.equal(update().approved, false);
+  });
+
+  it("flags writes as synced, or for review when less sure", () => {
+    assert.equal(update().flag_color, undefined);
+    setWritePolicy({
+      syncedFlag: ynab.TransactionFlagColor.Blue,
+      reviewFlag: ynab.TransactionFlagColor.Orange,
+    });
+    assert.equal(update().flag_color, ynab.TransactionFlagColor.Blue);
+    assert.equal(update(0.9).flag_color, ynab.TransactionFlagColor.Blue);
+    assert.equal(update(0.9).category_id, "c1");
+    assert.equal(update(0.2).flag_color, ynab.TransactionFlagColor.Orange);
+    assert.equal(update(0.2).category_id, "c1");
+
+    // Without a review flag, less sure categories are left off instead
+    setWritePolicy({ syncedFlag: ynab.TransactionFlagColor.Blue });
+    assert.equal(update(0.2).flag_color, ynab.TransactionFlagColor.Blue);
+    assert.equal(update(0.2).category_id, undefined);
+  });
+});
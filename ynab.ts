@@ -1,9 +1,20 @@
 import "dotenv/config";
 import * as ynab from "ynab";
-import { dollarFormat } from "./index.js";
-import * as AICategorizer from "./ai-categorizer.js";
-
-const ynabAPI = new ynab.API(process.env.YNAB_TOKEN || "");
+import { currencyFormat } from "./format.js";
+import * as Categorizer from "./categorizer.js";
+import Store from "./store.js";
+import type { BudgetConfig, RouteConfig } from "./config.js";
+import { buildMemo, fitItems, MAX_MEMO_LENGTH } from "./memo.js";
+import { findChargeSet, findItemSubset, partitionItems } from "./shipments.js";
+import { examplesFromTransaction } from "./category-examples.js";
+import { assign, Candidate } from "./assignment.js";
+import Journal, {
+  newRunId,
+  planReverts,
+  RevertSelection,
+  sameSnapshot,
+  snapshot,
+} from "./journal.js";
 
 const YNAB_ACCEPTABLE_DOLLAR_DIFFERENCE = process.env
   .YNAB_ACCEPTABLE_DOLLAR_DIFFERENCE
@@ -15,54 +26,298 @@ const YNAB_ACCEPTABLE_DATE_DIFFERENCE = process.env
   ? parseFloat(process.env.YNAB_ACCEPTABLE_DATE_DIFFERENCE)
   : 4;
 
-interface Order {
-  date: Date;
-  amount: number;
-  items: string[];
+// How far back to look for past purchases when learning categories
+const CATEGORY_LEARNING_MONTHS = parseInt(
+  process.env.CATEGORY_LEARNING_MONTHS || "12"
+);
+
+// Comma-separated YNAB flag colors from an environment variable
+const flagColors = (variable: string): ynab.TransactionFlagColor[] => {
+  const colors = (process.env[variable] || "")
+    .split(",")
+    .map((color) => color.trim().toLowerCase())
+    .filter(Boolean);
+  for (const color of colors)
+    if (!Object.values<string>(ynab.TransactionFlagColor).includes(color))
+      throw new Error(`Invalid ${variable} "${color}"`);
+  return colors as ynab.TransactionFlagColor[];
+};
+
+// Categories the categorizer is less sure of are left off, or set and
+// flagged for review when a flag color is given
+const CATEGORY_MIN_CONFIDENCE = parseFloat(
+  process.env.CATEGORY_MIN_CONFIDENCE || "0.5"
+);
+
+// Which transactions the sync may change, and how it marks its writes
+interface WritePolicy {
+  reviewFlag?: ynab.TransactionFlagColor; // For less sure categories
+  // Reconciled transactions are left alone unless this is false
+  skipReconciled: boolean;
+  // "keep" leaves the approval of updated transactions as it was,
+  // "unapprove" marks them unapproved so they show up for review in YNAB
+  approval: "keep" | "unapprove";
+  // Transactions flagged with one of these colors are never matched, and
+  // when onlyFlags has any, only transactions flagged with one of those are
+  skipFlags: ynab.TransactionFlagColor[];
+  onlyFlags: ynab.TransactionFlagColor[];
+  // Set on every transaction the sync writes, unless flagged for review
+  syncedFlag?: ynab.TransactionFlagColor;
 }
 
-interface Match {
-  dateDifference: number;
-  priceDifference: number;
-  orderIndex: number;
-  transactionId: string;
+const YNAB_APPROVAL = process.env.YNAB_APPROVAL?.toLowerCase() || "keep";
+if (YNAB_APPROVAL !== "keep" && YNAB_APPROVAL !== "unapprove")
+  throw new Error(`Invalid YNAB_APPROVAL "${YNAB_APPROVAL}"`);
+
+const ENV_POLICY: WritePolicy = {
+  reviewFlag: flagColors("CATEGORY_REVIEW_FLAG")[0],
+  skipReconciled: process.env.YNAB_SKIP_RECONCILED?.toLowerCase() !== "false",
+  approval: YNAB_APPROVAL,
+  skipFlags: flagColors("YNAB_SKIP_FLAGS"),
+  onlyFlags: flagColors("YNAB_ONLY_FLAGS"),
+  syncedFlag: flagColors("YNAB_SYNCED_FLAG")[0],
+};
+
+let policy = ENV_POLICY;
+
+// Overrides parts of the policy from the environment, e.g. in tests. Without
+// overrides, the environment's applies again.
+export const setWritePolicy = (overrides: Partial<WritePolicy> = {}): void => {
+  policy = { ...ENV_POLICY, ...overrides };
+};
+
+// Changes kept in memory for the dashboard
+const MAX_RECENT_UPDATES = 100;
+
+const YNAB_SPLIT_TRANSACTIONS =
+  process.env.YNAB_SPLIT_TRANSACTIONS?.toLowerCase() !== "false";
+
+interface OrderItem {
+  title: string;
+  quantity?: number;
+  amount?: number; // Negative milliunits, when the email lists a price
+}
+
+interface Order {
+  id: string; // Message-ID header, or "uid:<n>" when the email has none
+  uid?: number;
+  messageId?: string;
+  mailbox?: string; // Name of the mailbox the email was found in
+  orderNumber?: string;
+  orderLink?: string;
+  isRefund?: boolean; // Refunds have a positive amount and match inflows
+  canceled?: boolean;
+  shipmentDates?: Date[];
+  date: Date;
+  amount: number; // What the card was charged, net of balances
+  total?: number; // The order total, when balances paid part of it
+  giftCard?: number; // Paid with gift cards or Amazon balance
+  giftCardRecorded?: boolean; // Whether it's in the gift card account
+  items: OrderItem[];
 }
 
 interface FinalMatch {
   transactionId: string;
   order: Order;
+  itemIndexes?: number[]; // Set when the transaction covers only some items
+}
+
+interface OrderShare {
+  itemIndexes: number[];
+  amount: number;
+  partial: boolean;
 }
 
+interface SplitGroup {
+  items: OrderItem[];
+  categoryId?: string;
+  categoryName?: string;
+  source?: string;
+  needsReview?: boolean; // Set with low confidence and a review flag
+}
+
+// Spreads a milliunit total across the given weights in whole cents. Leftover
+// cents go to the largest remainders, so the parts always sum to the total.
+const allocateAmount = (total: number, weights: number[]): number[] => {
+  const totalCents = Math.round(Math.abs(total) / 10);
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+  const shares = weights.map((weight) =>
+    weightSum > 0
+      ? (totalCents * weight) / weightSum
+      : totalCents / weights.length
+  );
+  const cents = shares.map(Math.floor);
+
+  let leftover = totalCents - cents.reduce((sum, c) => sum + c, 0);
+  const byRemainder = shares
+    .map((share, index) => ({ index, remainder: share - Math.floor(share) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) break;
+    cents[index]++;
+    leftover--;
+  }
+
+  const sign = total < 0 ? -1 : 1;
+  const parts = cents.map((c) => sign * c * 10);
+
+  // Absorb any sub-cent difference so the split balances to the milliunit
+  parts[0] += total - parts.reduce((sum, part) => sum + part, 0);
+  return parts;
+};
+
+// The flag for a transaction the sync writes, if any
+const syncedFlag = (
+  needsReview: boolean
+): ynab.TransactionFlagColor | undefined =>
+  (needsReview && policy.reviewFlag) || policy.syncedFlag;
+
+const itemTitles = (items: OrderItem[]): string =>
+  items.map((item) => item.title).join(", ");
+
+// Amazon charges on shipment, so measure from whichever date is closest
+const orderDateDifference = (order: Order, date: string): number =>
+  Math.min(
+    ...[order.date, ...(order.shipmentDates || [])].map((d) =>
+      Math.abs(d.getTime() - new Date(date).getTime())
+    )
+  );
+
+const orderMemo = (
+  order: Order,
+  items: OrderItem[],
+  format: ynab.CurrencyFormat | null
+): string => {
+  const prefix = order.isRefund ? "Refund: " : "";
+  return `${prefix}${buildMemo(
+    {
+      orderNumber: order.orderNumber,
+      items: items.map((item) => item.title),
+      itemCount: items.reduce((sum, item) => sum + (item.quantity || 1), 0),
+      total: currencyFormat(
+        Math.abs(order.total ?? order.amount) / 1000,
+        format
+      ),
+      link: order.orderLink,
+    },
+    MAX_MEMO_LENGTH - prefix.length
+  )}`;
+};
+
+// YNAB ignores transactions with an import ID it has seen before, so an order
+// can't be created twice. Refunds of the same order differ by their amount.
+const orderImportId = (order: Order): string =>
+  order.isRefund
+    ? `AMZN:${order.orderNumber}:R${Math.abs(order.amount)}`
+    : `AMZN:${order.orderNumber}`;
+
+// The last date the order could be charged on
+const lastOrderDate = (order: Order): Date =>
+  new Date(
+    Math.max(
+      ...[order.date, ...(order.shipmentDates || [])].map((d) => d.getTime())
+    )
+  );
+
+// The categories and approval the sync left on a transaction
+const writtenState = (t: ynab.TransactionDetail) => ({
+  categoryIds:
+    t.subtransactions.length > 0
+      ? t.subtransactions
+          .filter((sub) => !sub.deleted)
+          .map((sub) => sub.category_id || null)
+      : [t.category_id || null],
+  approved: t.approved,
+});
+
+const matchItems = (m: FinalMatch): OrderItem[] =>
+  m.itemIndexes ? m.itemIndexes.map((i) => m.order.items[i]) : m.order.items;
+
+// Ratio of the order total to its item prices, i.e. the tax and shipping
+// markup, or null if any item is missing a price
+const priceScale = (order: Order): number | null => {
+  if (order.items.some((item) => item.amount === undefined)) return null;
+  const itemTotal = order.items.reduce(
+    (sum, item) => sum + Math.abs(item.amount!),
+    0
+  );
+  return itemTotal > 0 ? Math.abs(order.amount) / itemTotal : null;
+};
+
 export default class YNAB {
+  config: BudgetConfig;
+  api: ynab.API;
+  store: Store;
+  journal: Journal;
+  runId = newRunId(); // Groups the writes of one sync in the journal
+  dryRun: boolean;
+  // Accounts that orders from each mailbox may match, or null for any account
+  mailboxAccounts: Record<string, string[] | null> = {};
+  payeePatterns: RegExp[];
   budget: ynab.BudgetSummary | null = null;
   transactionsServerKnowledge: number | undefined = undefined;
-  transactions: Record<string, ynab.TransactionDetail> = {}; // TODO: does not get updated on memo updates
+  // Amazon transactions with a blank memo, and matched ones, kept up to date
+  // by fetchTransactions
+  transactions: Record<string, ynab.TransactionDetail> = {};
   categories: ynab.Category[] = [];
+  recentUpdates: { at: string; message: string }[] = []; // Newest first
+  // Orders the last matchTransactions held back, with the transactions they
+  // could have matched, because another pairing fits just as well
+  ambiguousOrders: Record<string, string[]> = {};
+  // Orders the last matchTransactions found a charge for among transactions
+  // the sync leaves alone, so they were paid and aren't created either
+  offLimitsOrders: Record<string, string[]> = {};
+
+  // In dry-run mode, matches are reported instead of written to YNAB
+  constructor(config: BudgetConfig, store: Store, dryRun = false) {
+    this.config = config;
+    this.api = new ynab.API(config.token);
+    this.payeePatterns = config.payeePatterns.map(
+      (pattern) => new RegExp(pattern, "i")
+    );
+    this.store = store;
+    this.journal = new Journal(config.journalFile, dryRun);
+    this.dryRun = dryRun;
+    this.transactionsServerKnowledge = store.state.serverKnowledge;
+    this.transactions = store.state.transactions;
+  }
 
-  static prettyTransaction = (t: ynab.TransactionDetail): string => {
-    const amount = dollarFormat(t.amount / 1000);
+  // In the budget's currency, each budget having its own
+  formatAmount = (amount: number): string =>
+    currencyFormat(amount, this.budget?.currency_format ?? null);
+
+  prettyTransaction = (t: ynab.TransactionDetail): string => {
+    const amount = this.formatAmount(t.amount / 1000);
     return `${t.payee_name} transaction on ${t.date} of ${amount}`;
   };
 
+  describeOrder = (order: Order): string =>
+    `${order.orderNumber || order.id} of ${this.formatAmount(
+      Math.abs(order.amount) / 1000
+    )} on ${order.date.toISOString().split("T")[0]}`;
+
   init = async (): Promise<void> => {
-    console.log("Connecting to YNAB...");
+    console.log(`Connecting to YNAB budget "${this.config.name}"...`);
 
-    const budgetsResponse = await ynabAPI.budgets.getBudgets();
+    const budgetsResponse = await this.api.budgets.getBudgets();
     const budget = budgetsResponse.data.budgets.find(
-      (b) => b.id === process.env.YNAB_BUDGET_ID
+      (b) => b.id === this.config.budgetId
     );
 
     if (!budget)
       throw new Error(
-        "Invalid budget ID provided. You can find the budget ID in the URL of your budget page."
+        `Invalid budget ID provided for "${this.config.name}". You can find the budget ID in the URL of your budget page.`
       );
 
     this.budget = budget;
 
-    // Fetch categories if AI categorization is enabled
-    if (AICategorizer.isEnabled()) {
+    // Fetch categories if categorization is enabled
+    if (Categorizer.isEnabled()) {
       await this.fetchCategories();
     }
+    if (Categorizer.isLearningEnabled() && !this.store.state.examplesMined) {
+      await this.mineExamples();
+    }
   };
 
   fetchCategories = async (): Promise<void> => {
@@ -71,7 +326,7 @@ export default class YNAB {
     }
 
     console.log("Fetching budget categories...");
-    const categoriesResponse = await ynabAPI.categories.getCategories(
+    const categoriesResponse = await this.api.categories.getCategories(
       this.budget.id
     );
 
@@ -83,166 +338,1249 @@ export default class YNAB {
     console.log(`Loaded ${this.categories.length} categories from YNAB`);
   };
 
+  addRoute = (route: RouteConfig): void => {
+    const accounts = this.mailboxAccounts[route.mailbox];
+    // Another route from the same mailbox without accounts allows them all
+    this.mailboxAccounts[route.mailbox] =
+      route.accountIds && accounts !== null
+        ? [...(accounts || []), ...route.accountIds]
+        : null;
+  };
+
+  // Reconciled transactions are never changed, not even by hand
+  isLocked = (t: ynab.TransactionDetail): boolean =>
+    policy.skipReconciled &&
+    t.cleared === ynab.TransactionClearedStatus.Reconciled;
+
+  // Throws for transactions that can't be changed by hand
+  getUnlockedTransaction = async (
+    transactionId: string
+  ): Promise<ynab.TransactionDetail> => {
+    const transaction = await this.getTransaction(transactionId);
+    if (this.isLocked(transaction))
+      throw new Error(
+        `${this.prettyTransaction(
+          transaction
+        )} is reconciled, so it's left alone`
+      );
+    return transaction;
+  };
+
+  // Transactions the sync is told to leave alone, by reconciliation or flag
+  isOffLimits = (t: ynab.TransactionDetail): boolean =>
+    this.isLocked(t) ||
+    (!!t.flag_color && policy.skipFlags.includes(t.flag_color)) ||
+    (policy.onlyFlags.length > 0 &&
+      !(t.flag_color && policy.onlyFlags.includes(t.flag_color)));
+
+  // Whether a transaction is free to take the order, ignoring amounts and dates
+  canMatch = (order: Order, t: ynab.TransactionDetail): boolean =>
+    !this.isOffLimits(t) && this.couldMatch(order, t);
+
+  // canMatch, were the transaction not off limits
+  couldMatch = (order: Order, t: ynab.TransactionDetail): boolean => {
+    if (t.memo && t.memo.length > 0) return false;
+    if (this.store.isUnlinked(t.id, order.id)) return false;
+
+    // Orders only match outflows, refunds only match inflows
+    if (Math.sign(t.amount) !== Math.sign(order.amount)) return false;
+
+    const accounts = order.mailbox && this.mailboxAccounts[order.mailbox];
+    return !accounts || accounts.includes(t.account_id);
+  };
+
+  // Reads past Amazon purchases once; later changes, such as the user
+  // re-categorizing a synced transaction, come in with fetchTransactions
+  mineExamples = async (): Promise<void> => {
+    const since = new Date();
+    since.setMonth(since.getMonth() - CATEGORY_LEARNING_MONTHS);
+    console.log(
+      `Learning categories from the last ${CATEGORY_LEARNING_MONTHS} months of Amazon purchases...`
+    );
+
+    const { transactions } = await this.requestTransactions(
+      since.toISOString().split("T")[0],
+      undefined
+    );
+    this.learnExamples(transactions);
+    this.store.state.examplesMined = true;
+    this.store.save();
+
+    console.log(
+      `Learned from ${
+        Object.keys(this.store.state.examples).length
+      } past purchases`
+    );
+  };
+
+  // Whether the categories on a transaction are the user's. Ones the sync
+  // wrote are only the model's guess until the user approves or changes them.
+  isReviewed = (t: ynab.TransactionDetail): boolean => {
+    const match = this.store.state.matches[t.id];
+    const written = match?.written;
+    if (written)
+      return (
+        (t.approved && !written.approved) ||
+        JSON.stringify(writtenState(t).categoryIds) !==
+          JSON.stringify(written.categoryIds)
+      );
+    // Matched before this was recorded, or created by the sync
+    if (match || t.import_id?.startsWith("AMZN:")) return t.approved;
+    return true;
+  };
+
+  learnExamples = (transactions: ynab.TransactionDetail[]): void => {
+    const { examples } = this.store.state;
+    for (const t of transactions) {
+      if (!this.isAmazonTransaction(t) || !this.isReviewed(t)) continue;
+      // Split lines may have been removed since
+      for (const key of Object.keys(examples))
+        if (key.startsWith(`${t.id}/`)) delete examples[key];
+      for (const [key, example] of Object.entries(examplesFromTransaction(t))) {
+        if (example) examples[key] = example;
+        else delete examples[key];
+      }
+    }
+  };
+
+  // Update logs would be misleading when nothing is written
+  logChange = (message: string): void => {
+    if (this.dryRun) return;
+    console.log(message);
+    this.recentUpdates.unshift({ at: new Date().toISOString(), message });
+    this.recentUpdates.splice(MAX_RECENT_UPDATES);
+  };
+
+  persist = (): void => {
+    this.store.state.serverKnowledge = this.transactionsServerKnowledge;
+    this.store.state.transactions = this.transactions;
+    this.store.save();
+  };
+
   getCachedTransactionCount = (): number =>
     Object.keys(this.transactions).length;
 
+  isAmazonTransaction = (t: ynab.TransactionDetail): boolean => {
+    const { accountIds, payeeIds } = this.config;
+    if (accountIds.length > 0 && !accountIds.includes(t.account_id))
+      return false;
+    return (
+      (!!t.payee_id && payeeIds.includes(t.payee_id)) ||
+      this.payeePatterns.some((pattern) => pattern.test(t.payee_name || ""))
+    );
+  };
+
+  // Transactions changed since the last fetch, from the configured accounts
+  // only when there are any
+  requestTransactions = async (
+    sinceDate: string | undefined,
+    knowledge: number | undefined = this.transactionsServerKnowledge
+  ): Promise<ynab.TransactionsResponseData> => {
+    const budgetId = this.budget!.id;
+    if (this.config.accountIds.length === 0)
+      return (
+        await this.api.transactions.getTransactions(
+          budgetId,
+          sinceDate,
+          undefined,
+          knowledge
+        )
+      ).data;
+
+    const responses = await Promise.all(
+      this.config.accountIds.map((accountId) =>
+        this.api.transactions.getTransactionsByAccount(
+          budgetId,
+          accountId,
+          sinceDate,
+          undefined,
+          knowledge
+        )
+      )
+    );
+    return {
+      transactions: responses.flatMap((r) => r.data.transactions),
+      // Server knowledge is per budget, so resume from the oldest response
+      server_knowledge: Math.min(
+        ...responses.map((r) => r.data.server_knowledge)
+      ),
+    };
+  };
+
   fetchTransactions = async (
     sinceDate: Date | undefined = undefined
   ): Promise<void> => {
-    const { transactions, server_knowledge } = (
-      await ynabAPI.transactions.getTransactions(
-        this.budget!.id,
-        sinceDate ? sinceDate.toISOString().split("T")[0] : undefined,
-        undefined,
-        this.transactionsServerKnowledge
-      )
-    ).data;
+    const { transactions, server_knowledge } = await this.requestTransactions(
+      sinceDate ? sinceDate.toISOString().split("T")[0] : undefined
+    );
 
     this.transactionsServerKnowledge = server_knowledge;
+    if (Categorizer.isLearningEnabled()) this.learnExamples(transactions);
 
-    let newTransactionsCount = 0;
-    transactions
-      .filter(
-        (t) =>
-          t.payee_name?.toLowerCase().includes("amazon") &&
-          (typeof t.memo !== "string" || t.memo.length == 0)
-      )
-      .forEach((t) => {
-        if (t.deleted && t.id in this.transactions) {
-          delete this.transactions[t.id];
-          console.log(`Deleting transaction: ${YNAB.prettyTransaction(t)}`);
-        } else {
-          this.transactions[t.id] = t;
-          newTransactionsCount++;
-          console.log(`Caching transaction: ${YNAB.prettyTransaction(t)}`);
-        }
-      });
+    // Drop transactions cached before the accounts or payees were narrowed
+    for (const t of Object.values(this.transactions))
+      if (!this.isAmazonTransaction(t) && !this.store.state.matches[t.id])
+        delete this.transactions[t.id];
+
+    for (const t of transactions) this.applyTransactionChange(t);
+
+    this.persist();
+  };
+
+  // Brings the cache up to date with a transaction from the delta sync. Blank
+  // memos are cached to match them, and matched transactions to show them
+  // with their order. A matched transaction that was deleted, renamed to
+  // another payee or had its memo cleared in YNAB is unlinked, so its order
+  // is pending again.
+  applyTransactionChange = (t: ynab.TransactionDetail): void => {
+    const match = this.store.state.matches[t.id];
+    const previous = this.transactions[t.id];
+    // Transactions linked by hand may have any payee, until it changes
+    const renamed =
+      !!previous &&
+      previous.payee_name !== t.payee_name &&
+      !this.isAmazonTransaction(t);
+
+    if (match && (t.deleted || !t.memo || renamed)) {
+      this.store.unlinkMatch(t.id);
+      const order = this.store.state.orders[match.orderId];
+      this.logChange(
+        `${this.prettyTransaction(t)} was unlinked from order ${
+          order?.orderNumber || match.orderId
+        } (${
+          t.deleted ? "deleted" : renamed ? "payee changed" : "memo cleared"
+        } in YNAB)`
+      );
+    }
+
+    const keep =
+      !t.deleted &&
+      (!!this.store.state.matches[t.id] ||
+        (this.isAmazonTransaction(t) && !t.memo));
+    if (keep) {
+      this.transactions[t.id] = t;
+      if (!previous)
+        console.log(`Caching transaction: ${this.prettyTransaction(t)}`);
+    } else if (previous) {
+      delete this.transactions[t.id];
+      console.log(`Uncaching transaction: ${this.prettyTransaction(t)}`);
+    }
+  };
+
+  // The items of an order not charged yet, and the amount expected for them
+  pendingShare = (order: Order): OrderShare | null => {
+    // Orders paid entirely with balances have no charge to find
+    if (order.canceled || order.amount === 0) return null;
+    // Orders found paid by a charge that already had a memo are done too
+    if (this.store.state.settled[order.id]) return null;
+
+    const matched = this.store.getMatchedItemIndexes(order);
+    const itemIndexes = order.items
+      .map((_, i) => i)
+      .filter((i) => !matched.has(i));
+
+    if (itemIndexes.length === 0) return null;
+    if (matched.size === 0)
+      return { itemIndexes, amount: order.amount, partial: false };
+
+    const scale = priceScale(order);
+    if (scale === null) return null;
+    const amount = itemIndexes.reduce(
+      (sum, i) => sum + order.items[i].amount! * scale,
+      0
+    );
+    return { itemIndexes, amount: Math.round(amount), partial: true };
   };
 
   matchTransactions = (orders: Order[]): FinalMatch[] => {
     if (orders.length === 0) return [];
 
-    let nearOrPerfectMatches: Match[] = [];
+    const maxDateDifference = YNAB_ACCEPTABLE_DATE_DIFFERENCE * 86400 * 1000;
+    const maxPriceDifference = YNAB_ACCEPTABLE_DOLLAR_DIFFERENCE * 1000;
+    const shares = orders.map(this.pendingShare);
+    const transactionIds = Object.keys(this.transactions);
+    const candidates: Candidate[] = [];
 
-    orderLoop: for (const [orderIndex, order] of orders.entries()) {
-      for (const [transactionId, transaction] of Object.entries(
-        this.transactions
-      )) {
-        if (transaction.memo && transaction.memo.length > 0) continue;
+    for (const [orderIndex, order] of orders.entries()) {
+      const share = shares[orderIndex];
+      if (!share) continue;
 
-        const dateDifference = Math.abs(
-          order.date.getTime() - new Date(transaction.date).getTime()
-        );
+      for (const [column, transactionId] of transactionIds.entries()) {
+        const transaction = this.transactions[transactionId];
+        if (!this.canMatch(order, transaction)) continue;
+
+        const dateDifference = orderDateDifference(order, transaction.date);
         const priceDifference = Math.abs(
-          Math.abs(order.amount) - Math.abs(transaction.amount)
+          Math.abs(share.amount) - Math.abs(transaction.amount)
         );
         if (
-          dateDifference <= YNAB_ACCEPTABLE_DATE_DIFFERENCE * 86400 * 1000 &&
-          priceDifference <= YNAB_ACCEPTABLE_DOLLAR_DIFFERENCE * 1000
+          dateDifference > maxDateDifference ||
+          priceDifference > maxPriceDifference
         )
-          nearOrPerfectMatches.push({
-            dateDifference,
-            priceDifference,
-            orderIndex,
-            transactionId,
-          });
-
-        // If perfect match, no sense in continuing the search for this order
-        if (dateDifference === 0 && priceDifference === 0) continue orderLoop;
+          continue;
+
+        // Each difference as a share of what's acceptable, so a pair at both
+        // limits costs 2
+        candidates.push({
+          row: orderIndex,
+          column,
+          cost:
+            (maxDateDifference && dateDifference / maxDateDifference) +
+            (maxPriceDifference && priceDifference / maxPriceDifference),
+        });
       }
     }
 
-    nearOrPerfectMatches.sort((a, b) => {
-      // First, compare by the "dateDifference" property in ascending order
-      if (a.dateDifference < b.dateDifference) return -1;
-      if (a.dateDifference > b.dateDifference) return 1;
-
-      // If the "dateDifference" values are equal, compare by "priceDifference" in ascending order
-      if (a.priceDifference < b.priceDifference) return -1;
-      if (a.priceDifference > b.priceDifference) return 1;
-
-      // If the dates are the same, compare by the "priceDifference" property in descending order
-      if (a.priceDifference > b.priceDifference) return -1;
-      if (a.priceDifference < b.priceDifference) return 1;
+    const { pairs, ambiguous } = assign(
+      candidates,
+      (a, b) =>
+        shares[a]!.amount === shares[b]!.amount &&
+        itemTitles(shares[a]!.itemIndexes.map((i) => orders[a].items[i])) ===
+          itemTitles(shares[b]!.itemIndexes.map((i) => orders[b].items[i]))
+    );
 
-      // If both "date" and "price" are equal, no change in order
-      return 0;
+    const finalMatches: FinalMatch[] = pairs.map(({ row, column }) => {
+      const share = shares[row]!;
+      return {
+        transactionId: transactionIds[column],
+        order: orders[row],
+        itemIndexes: share.partial ? share.itemIndexes : undefined,
+      };
     });
 
-    const finalMatches: FinalMatch[] = [];
+    // Held back from the shipment pass too, so they're left to the user
+    const ambiguousTransactionIds = new Set<string>();
+    const ambiguousOrders: Record<string, string[]> = {};
+    for (const a of ambiguous) {
+      const order = orders[a.row];
+      const transactionId = transactionIds[a.column];
+      ambiguousTransactionIds.add(transactionId);
+      shares[a.row] = null;
+      (ambiguousOrders[order.id] ||= []).push(transactionId);
+      // The order that could take the transaction instead waits too, unless
+      // it was matched to something else
+      const rival = a.otherRow;
+      if (rival !== undefined && !pairs.some((p) => p.row === rival)) {
+        shares[rival] = null;
+        const heldBack = (ambiguousOrders[orders[rival].id] ||= []);
+        if (!heldBack.includes(transactionId)) heldBack.push(transactionId);
+      }
+      if (this.ambiguousOrders[order.id]?.includes(transactionId)) continue;
 
-    while (nearOrPerfectMatches.length > 0) {
-      const match = nearOrPerfectMatches.shift()!;
-      nearOrPerfectMatches = nearOrPerfectMatches.filter(
-        (potentialMatch) =>
-          potentialMatch.transactionId !== match.transactionId &&
-          potentialMatch.orderIndex !== match.orderIndex
+      const others = [
+        a.otherRow !== undefined &&
+          `order ${this.describeOrder(
+            orders[a.otherRow]
+          )} fits the transaction`,
+        a.otherColumn !== undefined &&
+          this.prettyTransaction(
+            this.transactions[transactionIds[a.otherColumn]]
+          ) + " fits the order",
+      ].filter(Boolean);
+      console.log(
+        `Not matching order ${this.describeOrder(
+          order
+        )} to ${this.prettyTransaction(this.transactions[transactionId])}, ${
+          others.join(" and ") || "another pair fits"
+        } just as well. Link it by hand from the dashboard.`
       );
+    }
+    this.ambiguousOrders = ambiguousOrders;
 
-      finalMatches.push({
-        transactionId: match.transactionId,
-        order: orders[match.orderIndex],
-      });
+    this.matchShipments(orders, shares, finalMatches, ambiguousTransactionIds);
+
+    // A charge that fits but is off limits still means the order was paid
+    const matchedOrderIds = new Set(finalMatches.map((m) => m.order.id));
+    const offLimitsOrders: Record<string, string[]> = {};
+    for (const [orderIndex, order] of orders.entries()) {
+      const share = shares[orderIndex];
+      if (!share || matchedOrderIds.has(order.id)) continue;
+      const charges = Object.values(this.transactions).filter(
+        (t) =>
+          this.isOffLimits(t) &&
+          this.couldMatch(order, t) &&
+          orderDateDifference(order, t.date) <= maxDateDifference &&
+          Math.abs(Math.abs(share.amount) - Math.abs(t.amount)) <=
+            maxPriceDifference
+      );
+      if (charges.length === 0) continue;
+      offLimitsOrders[order.id] = charges.map((t) => t.id);
+      if (!this.offLimitsOrders[order.id])
+        console.log(
+          `Order ${this.describeOrder(order)} fits ${this.prettyTransaction(
+            charges[0]
+          )}, which is left alone, so it won't be matched or created`
+        );
     }
+    this.offLimitsOrders = offLimitsOrders;
 
     return finalMatches;
   };
 
-  updateTransactions = async (matches: FinalMatch[]): Promise<void> => {
-    if (matches.length === 0) return;
+  // Matches orders left over by the one-to-one pass against several charges
+  // (one per shipment), or a single charge against a subset of their items
+  matchShipments = (
+    orders: Order[],
+    shares: (OrderShare | null)[],
+    finalMatches: FinalMatch[],
+    heldBackTransactionIds: Set<string>
+  ): void => {
+    const tolerance = YNAB_ACCEPTABLE_DOLLAR_DIFFERENCE * 1000;
+    const maxDateDifference = YNAB_ACCEPTABLE_DATE_DIFFERENCE * 86400 * 1000;
+    const usedTransactionIds = new Set([
+      ...heldBackTransactionIds,
+      ...finalMatches.map((m) => m.transactionId),
+    ]);
+    const matchedOrderIds = new Set(finalMatches.map((m) => m.order.id));
+
+    for (const [orderIndex, order] of orders.entries()) {
+      const share = shares[orderIndex];
+      if (!share || order.isRefund || matchedOrderIds.has(order.id)) continue;
+
+      const dateDifference = (t: ynab.TransactionDetail): number =>
+        orderDateDifference(order, t.date);
+
+      const charges = Object.values(this.transactions)
+        .filter(
+          (t) =>
+            !usedTransactionIds.has(t.id) &&
+            this.canMatch(order, t) &&
+            dateDifference(t) <= maxDateDifference
+        )
+        .sort((a, b) => dateDifference(a) - dateDifference(b))
+        .map((t) => ({ id: t.id, amount: Math.abs(t.amount) }));
+      if (charges.length === 0) continue;
 
-    // If AI categorization is enabled, infer categories for each match
-    const transactionUpdates = await Promise.all(
-      matches.map(async (m) => {
-        const id = m.transactionId;
-        const memo = m.order.items.join(", ");
-        const transaction = this.transactions[id];
-        transaction.memo = memo;
-
-        let categoryId: string | undefined = undefined;
-
-        // Try to infer category using AI
-        if (AICategorizer.isEnabled() && this.categories.length > 0) {
-          const categoryMatch = await AICategorizer.inferCategory(
-            m.order.items,
-            this.categories
+      const scale = priceScale(order);
+      const pricedItems =
+        scale === null
+          ? null
+          : share.itemIndexes.map((index) => ({
+              index,
+              amount: Math.abs(order.items[index].amount!),
+            }));
+
+      let shipmentMatches: FinalMatch[] = [];
+
+      const chargeSet = findChargeSet(
+        Math.abs(share.amount),
+        charges,
+        tolerance
+      );
+      if (chargeSet) {
+        const partition =
+          pricedItems &&
+          partitionItems(
+            pricedItems,
+            chargeSet.map((charge) => charge.amount),
+            scale!,
+            tolerance
           );
-          if (categoryMatch) {
-            categoryId = categoryMatch.categoryId;
-            console.log(
-              `Adding memo "${memo}" and category "${
-                categoryMatch.categoryName
-              }" to ${YNAB.prettyTransaction(transaction)}`
-            );
-          } else {
-            console.log(
-              `Adding memo "${memo}" to ${YNAB.prettyTransaction(
-                transaction
-              )} (AI categorization failed)`
-            );
-          }
-        } else {
+        if (!partition)
           console.log(
-            `Adding memo "${memo}" to ${YNAB.prettyTransaction(transaction)}`
+            "Could not tell which items shipped in which charge, using all items for each"
+          );
+        shipmentMatches = chargeSet.map((charge, i) => ({
+          transactionId: charge.id,
+          order,
+          itemIndexes: partition ? partition[i] : share.itemIndexes,
+        }));
+      } else if (pricedItems) {
+        for (const charge of charges) {
+          const subset = findItemSubset(
+            pricedItems,
+            charge.amount,
+            scale!,
+            tolerance
           );
+          if (subset) {
+            shipmentMatches = [
+              { transactionId: charge.id, order, itemIndexes: subset },
+            ];
+            break;
+          }
         }
+      }
+
+      if (shipmentMatches.length === 0) continue;
+
+      console.log(
+        `Matched ${this.formatAmount(Math.abs(order.amount) / 1000)} order on ${
+          order.date.toISOString().split("T")[0]
+        } to ${shipmentMatches.length} shipment charge(s): ${shipmentMatches
+          .map((m) =>
+            this.prettyTransaction(this.transactions[m.transactionId])
+          )
+          .join("; ")}`
+      );
+
+      for (const m of shipmentMatches) {
+        usedTransactionIds.add(m.transactionId);
+        finalMatches.push(m);
+      }
+      matchedOrderIds.add(order.id);
+    }
+  };
+
+  // Applies the confidence threshold to a category from the categorizer
+  reviewCategory = (
+    match: Categorizer.CategoryMatch | null
+  ): Omit<SplitGroup, "items"> | null => {
+    if (!match) return null;
+    const { categoryId, categoryName, source, confidence } = match;
+    if (confidence >= CATEGORY_MIN_CONFIDENCE)
+      return { categoryId, categoryName, source };
+
+    const alternatives =
+      match.alternatives.length > 0
+        ? `, alternatives: ${match.alternatives
+            .map((c) => `"${c.categoryName}" (${c.confidence.toFixed(2)})`)
+            .join(", ")}`
+        : "";
+    console.log(
+      `Low confidence (${confidence.toFixed(
+        2
+      )}) in category "${categoryName}"${alternatives}, ${
+        policy.reviewFlag ? "flagging for review" : "leaving uncategorized"
+      }`
+    );
+    return policy.reviewFlag
+      ? { categoryId, categoryName, source, needsReview: true }
+      : null;
+  };
+
+  // Groups items by their category, or one group per item without
+  // categorization
+  buildSplitGroups = (
+    items: OrderItem[],
+    categorized: (Categorizer.CategoryMatch | null)[]
+  ): SplitGroup[] => {
+    if (!this.canCategorize()) return items.map((item) => ({ items: [item] }));
+
+    const groups: SplitGroup[] = [];
+    for (const [index, item] of items.entries()) {
+      const category = this.reviewCategory(categorized[index]);
+      const group = groups.find((g) => g.categoryId === category?.categoryId);
+      if (group) {
+        group.items.push(item);
+        group.needsReview ||= category?.needsReview;
+      } else {
+        groups.push({ items: [item], ...category });
+      }
+    }
+    return groups;
+  };
+
+  canCategorize = (): boolean =>
+    Categorizer.isEnabled() && this.categories.length > 0;
+
+  canSplit = (m: FinalMatch): boolean => {
+    const items = matchItems(m);
+    return (
+      YNAB_SPLIT_TRANSACTIONS &&
+      items.length > 1 &&
+      items.every((item) => item.amount !== undefined) &&
+      this.transactions[m.transactionId].subtransactions.length === 0
+    );
+  };
+
+  // Builds the update for a match from the categories of its items when it
+  // can be split, or else from the category of the whole order
+  buildTransactionUpdate = (
+    m: FinalMatch,
+    categorized: (Categorizer.CategoryMatch | null)[]
+  ): ynab.SaveTransactionWithId => {
+    const id = m.transactionId;
+    const items = matchItems(m);
+    const memo = orderMemo(
+      m.order,
+      items,
+      this.budget!.currency_format || null
+    );
+    const transaction = this.transactions[id];
+
+    let categoryMatch: Omit<SplitGroup, "items"> | null = null;
+
+    if (this.canSplit(m)) {
+      const groups = this.buildSplitGroups(items, categorized);
+
+      if (groups.length > 1) {
+        // Item prices exclude tax and shipping, so weight each split by its
+        // share of the item total and allocate the actual charged amount
+        const amounts = allocateAmount(
+          transaction.amount,
+          groups.map((g) =>
+            g.items.reduce((sum, item) => sum + Math.abs(item.amount!), 0)
+          )
+        );
+        const subtransactions = groups.map((g, index) => ({
+          amount: amounts[index],
+          memo: fitItems(
+            g.items.map((item) => item.title),
+            MAX_MEMO_LENGTH
+          ),
+          category_id: g.categoryId,
+        }));
+
+        const breakdown = groups
+          .map((g, index) => {
+            const label = g.categoryName || itemTitles(g.items);
+            return `${this.formatAmount(
+              Math.abs(amounts[index]) / 1000
+            )} "${label}"`;
+          })
+          .join(", ");
+        this.logChange(
+          `Splitting ${this.prettyTransaction(transaction)} into ${breakdown}`
+        );
 
         return {
           id,
           memo,
-          category_id: categoryId,
-          approved: false,
+          category_id: null,
+          approved: policy.approval === "unapprove" ? false : undefined,
+          flag_color: syncedFlag(groups.some((g) => g.needsReview)),
+          subtransactions,
         };
-      })
+      }
+
+      categoryMatch = groups[0];
+    } else if (this.canCategorize()) {
+      categoryMatch = this.reviewCategory(categorized[0]);
+    }
+
+    if (categoryMatch?.categoryId) {
+      this.logChange(
+        `Adding memo "${memo}" and category "${categoryMatch.categoryName}" (${
+          categoryMatch.source
+        }) to ${this.prettyTransaction(transaction)}`
+      );
+    } else if (this.canCategorize()) {
+      this.logChange(
+        `Adding memo "${memo}" to ${this.prettyTransaction(
+          transaction
+        )} (no category found)`
+      );
+    } else {
+      this.logChange(
+        `Adding memo "${memo}" to ${this.prettyTransaction(transaction)}`
+      );
+    }
+
+    return {
+      id,
+      memo,
+      category_id: categoryMatch?.categoryId,
+      approved: policy.approval === "unapprove" ? false : undefined,
+      flag_color: syncedFlag(!!categoryMatch?.needsReview),
+    };
+  };
+
+  // Categorizes all matches together, so the model sees many orders per
+  // request and items it has seen before aren't asked about again
+  buildTransactionUpdates = async (
+    matches: FinalMatch[]
+  ): Promise<ynab.SaveTransactionWithId[]> => {
+    const requests = matches.map((m) => {
+      const titles = matchItems(m).map((item) => item.title);
+      return this.canSplit(m) ? titles.map((title) => [title]) : [titles];
+    });
+
+    const flat = requests.flat();
+    const categorized = this.canCategorize()
+      ? await Categorizer.inferCategories(
+          flat,
+          this.categories,
+          Object.values(this.store.state.examples),
+          this.store.state.categoryCache
+        )
+      : flat.map(() => null);
+
+    let next = 0;
+    return matches.map((m, index) =>
+      this.buildTransactionUpdate(
+        m,
+        categorized.slice(next, (next += requests[index].length))
+      )
+    );
+  };
+
+  updateTransactions = async (matches: FinalMatch[]): Promise<void> => {
+    if (matches.length === 0) return;
+
+    const transactionUpdates = await this.buildTransactionUpdates(matches);
+
+    const response = await this.api.transactions.updateTransactions(
+      this.budget!.id,
+      { transactions: transactionUpdates }
+    );
+
+    for (const [index, m] of matches.entries()) {
+      const before = this.transactions[m.transactionId];
+      const after = response.data.transactions?.find(
+        (t) => t.id === m.transactionId
+      );
+      this.journal.append({
+        runId: this.runId,
+        action: "update",
+        transactionId: m.transactionId,
+        orderId: m.order.id,
+        before: snapshot(before),
+        after: after ? snapshot(after) : null,
+      });
+      before.memo = transactionUpdates[index].memo;
+      this.store.recordMatch(
+        m.transactionId,
+        m.order.id,
+        m.itemIndexes,
+        after && writtenState(after)
+      );
+    }
+    this.persist();
+  };
+
+  // The closest transaction to an order, even outside the acceptable
+  // differences, to show how far off an unmatched order is
+  nearestTransaction = (order: Order): ynab.TransactionDetail | undefined => {
+    const cost = (t: ynab.TransactionDetail): number =>
+      orderDateDifference(order, t.date) /
+        (Math.max(YNAB_ACCEPTABLE_DATE_DIFFERENCE, 1) * 86400 * 1000) +
+      Math.abs(Math.abs(order.amount) - Math.abs(t.amount)) /
+        (Math.max(YNAB_ACCEPTABLE_DOLLAR_DIFFERENCE, 0.01) * 1000);
+
+    return Object.values(this.transactions)
+      .filter((t) => this.canMatch(order, t))
+      .sort((a, b) => cost(a) - cost(b))[0];
+  };
+
+  describeCategory = (update: ynab.SaveTransactionWithId): string => {
+    const name = (id?: string | null): string =>
+      this.categories.find((c) => c.id === id)?.name || "(none)";
+
+    if (update.subtransactions && update.subtransactions.length > 0)
+      return `split into ${update.subtransactions
+        .map(
+          (sub) =>
+            `${this.formatAmount(Math.abs(sub.amount) / 1000)} "${
+              sub.memo
+            }" -> ${name(sub.category_id)}`
+        )
+        .join(", ")}`;
+    return name(update.category_id);
+  };
+
+  reportMatches = async (
+    orders: Order[],
+    matches: FinalMatch[]
+  ): Promise<void> => {
+    const updates = await this.buildTransactionUpdates(matches);
+    const days = (ms: number): string => (ms / 86400000).toFixed(1);
+
+    console.log("\n===== Dry run report (nothing was written to YNAB) =====");
+    console.log(
+      `Acceptable differences: ${YNAB_ACCEPTABLE_DATE_DIFFERENCE} day(s), ${this.formatAmount(
+        YNAB_ACCEPTABLE_DOLLAR_DIFFERENCE
+      )}`
+    );
+
+    let matchedCount = 0;
+    for (const order of orders) {
+      const share = this.pendingShare(order);
+      if (!share) continue;
+
+      console.log(
+        `\n${order.isRefund ? "Refund" : "Order"}${
+          order.orderNumber ? ` ${order.orderNumber}` : ""
+        } on ${order.date.toISOString().split("T")[0]} of ${this.formatAmount(
+          Math.abs(share.amount) / 1000
+        )}: ${itemTitles(share.itemIndexes.map((i) => order.items[i]))}`
+      );
+      if (order.giftCard)
+        console.log(
+          `  Paid ${this.formatAmount(
+            Math.abs(order.giftCard) / 1000
+          )} with gift cards${
+            this.config.giftCardAccountId && !order.giftCardRecorded
+              ? `, would be recorded in account ${this.config.giftCardAccountId}`
+              : ""
+          }`
+        );
+
+      const orderMatches = matches
+        .map((m, index) => ({ m, update: updates[index] }))
+        .filter(({ m }) => m.order === order);
+
+      const heldBack = this.ambiguousOrders[order.id];
+      if (heldBack) {
+        console.log(
+          `  Not matched or created, another pairing fits just as well: ${heldBack
+            .map((id) => this.prettyTransaction(this.transactions[id]))
+            .join("; ")}`
+        );
+        continue;
+      }
+      if (orderMatches.length === 0) {
+        const nearest = this.nearestTransaction(order);
+        console.log(
+          nearest
+            ? `  No match. Closest: ${this.prettyTransaction(nearest)} (${days(
+                orderDateDifference(order, nearest.date)
+              )} days apart, ${this.formatAmount(
+                Math.abs(Math.abs(share.amount) - Math.abs(nearest.amount)) /
+                  1000
+              )} off)`
+            : "  No match. No Amazon transactions to compare against."
+        );
+        const offLimits = this.offLimitsOrders[order.id];
+        if (offLimits)
+          console.log(
+            `  Not created, it fits a transaction that is left alone: ${offLimits
+              .map((id) => this.prettyTransaction(this.transactions[id]))
+              .join("; ")}`
+          );
+        else if (this.isDueForCreation(order))
+          console.log(
+            `  Would be created in account ${this.config.createAccountId}`
+          );
+        continue;
+      }
+
+      matchedCount++;
+      const chargedTotal = orderMatches.reduce(
+        (sum, { m }) => sum + this.transactions[m.transactionId].amount,
+        0
+      );
+      console.log(
+        `  Price difference: ${this.formatAmount(
+          Math.abs(Math.abs(share.amount) - Math.abs(chargedTotal)) / 1000
+        )}`
+      );
+      for (const { m, update } of orderMatches) {
+        const transaction = this.transactions[m.transactionId];
+        console.log(
+          `  Candidate: ${this.prettyTransaction(transaction)} (${days(
+            orderDateDifference(order, transaction.date)
+          )} days apart)`
+        );
+        console.log(`    Memo: ${update.memo}`);
+        console.log(`    Category: ${this.describeCategory(update)}`);
+      }
+    }
+
+    const pendingCount = orders.filter(this.pendingShare).length;
+    console.log(
+      `\n${matchedCount} of ${pendingCount} pending orders would be matched`
+    );
+  };
+
+  // Whether an unmatched order has waited long enough for a charge. Orders
+  // unlinked or reverted before, or held back because another pairing fits
+  // just as well, are left to the user. Ones whose charge is off limits were
+  // paid.
+  isDueForCreation = (order: Order): boolean =>
+    !!this.config.createAccountId &&
+    !!order.orderNumber &&
+    !this.store.wasUnlinked(order.id) &&
+    !this.ambiguousOrders[order.id] &&
+    !this.offLimitsOrders[order.id] &&
+    Date.now() - lastOrderDate(order).getTime() >=
+      this.config.createAfterDays * 86400 * 1000;
+
+  // An unmatched Amazon charge that fits the order but already has a memo.
+  // Charges given a memo by hand, or before there was a state file, are
+  // never cached or matched, yet still show the order was paid.
+  findMemoCharge = (
+    order: Order,
+    share: OrderShare,
+    transactions: ynab.TransactionDetail[]
+  ): ynab.TransactionDetail | undefined =>
+    transactions.find(
+      (t) =>
+        !t.deleted &&
+        !!t.memo &&
+        !this.store.state.matches[t.id] &&
+        this.isAmazonTransaction(t) &&
+        Math.sign(t.amount) === Math.sign(share.amount) &&
+        orderDateDifference(order, t.date) <=
+          YNAB_ACCEPTABLE_DATE_DIFFERENCE * 86400 * 1000 &&
+        Math.abs(Math.abs(share.amount) - Math.abs(t.amount)) <=
+          YNAB_ACCEPTABLE_DOLLAR_DIFFERENCE * 1000
+    );
+
+  // Orders that never got a charge, e.g. because they were paid with gift
+  // card balance or an unlinked card, become transactions of their own
+  createTransactions = async (orders: Order[]): Promise<void> => {
+    const accountId = this.config.createAccountId;
+    if (!accountId) return;
+
+    const pending = orders.flatMap((order) => {
+      const share = this.pendingShare(order);
+      return share && this.isDueForCreation(order) ? [{ order, share }] : [];
+    });
+    if (pending.length === 0) return;
+
+    const since = new Date(
+      Math.min(...pending.map(({ order }) => order.date.getTime())) -
+        YNAB_ACCEPTABLE_DATE_DIFFERENCE * 86400 * 1000
+    );
+    const { transactions: recent } = await this.requestTransactions(
+      since.toISOString().split("T")[0],
+      undefined
+    );
+    const due = pending.filter(({ order, share }) => {
+      const charge = this.findMemoCharge(order, share, recent);
+      if (!charge) return true;
+      console.log(
+        `Not creating order ${this.describeOrder(
+          order
+        )}, ${this.prettyTransaction(charge)} already has the memo "${
+          charge.memo
+        }"`
+      );
+      this.store.settleOrder(order.id, charge.id);
+      return false;
+    });
+    if (due.length < pending.length) this.persist();
+    if (due.length === 0) return;
+
+    const titles = due.map(({ order, share }) =>
+      share.itemIndexes.map((i) => order.items[i].title)
+    );
+    const categorized = this.canCategorize()
+      ? await Categorizer.inferCategories(
+          titles,
+          this.categories,
+          Object.values(this.store.state.examples),
+          this.store.state.categoryCache
+        )
+      : titles.map(() => null);
+
+    const transactions = due.map(({ order, share }, index) => {
+      const items = share.itemIndexes.map((i) => order.items[i]);
+      const memo = orderMemo(
+        order,
+        items,
+        this.budget!.currency_format || null
+      );
+      const category = this.reviewCategory(categorized[index]);
+      this.logChange(
+        `Creating ${this.formatAmount(Math.abs(share.amount) / 1000)} ${
+          order.isRefund ? "refund" : "order"
+        } ${order.orderNumber} from ${
+          order.date.toISOString().split("T")[0]
+        } with memo "${memo}"${
+          category ? ` and category "${category.categoryName}"` : ""
+        }, no matching charge was found`
+      );
+      return {
+        account_id: accountId,
+        date: order.date.toISOString().split("T")[0],
+        amount: share.amount,
+        payee_name: "Amazon",
+        memo,
+        category_id: category?.categoryId,
+        approved: false,
+        flag_color: syncedFlag(!!category?.needsReview),
+        import_id: orderImportId(order),
+      };
+    });
+
+    const response = await this.api.transactions.createTransaction(
+      this.budget!.id,
+      { transactions }
+    );
+    const created = response.data.transactions || [];
+    const duplicates = response.data.duplicate_import_ids || [];
+
+    // Created on an earlier run whose state was lost
+    const existing =
+      duplicates.length > 0
+        ? (
+            await this.api.transactions.getTransactionsByAccount(
+              this.budget!.id,
+              accountId,
+              transactions
+                .filter((t) => duplicates.includes(t.import_id))
+                .map((t) => t.date)
+                .sort()[0]
+            )
+          ).data.transactions
+        : [];
+
+    for (const { order, share } of due) {
+      const importId = orderImportId(order);
+      const t = [...created, ...existing].find(
+        (candidate) => candidate.import_id === importId
+      );
+      if (!t) continue;
+      if (duplicates.includes(importId))
+        console.log(`Order ${order.orderNumber} was already created in YNAB`);
+      else
+        this.journal.append({
+          runId: this.runId,
+          action: "create",
+          transactionId: t.id,
+          orderId: order.id,
+          before: null,
+          after: snapshot(t),
+        });
+      this.store.recordMatch(
+        t.id,
+        order.id,
+        share.partial ? share.itemIndexes : undefined,
+        writtenState(t)
+      );
+    }
+    this.persist();
+  };
+
+  // The gift card part of orders goes to a tracking account, so its balance
+  // follows what's left on the gift cards
+  recordGiftCards = async (orders: Order[]): Promise<void> => {
+    const accountId = this.config.giftCardAccountId;
+    if (!accountId) return;
+
+    const pending = orders.filter(
+      (order) =>
+        order.giftCard &&
+        order.orderNumber &&
+        !order.canceled &&
+        !order.giftCardRecorded
     );
+    if (pending.length === 0) return;
 
-    await ynabAPI.transactions.updateTransactions(this.budget!.id, {
-      transactions: transactionUpdates,
+    const titles = pending.map((order) =>
+      order.items.map((item) => item.title)
+    );
+    const categorized = this.canCategorize()
+      ? await Categorizer.inferCategories(
+          titles,
+          this.categories,
+          Object.values(this.store.state.examples),
+          this.store.state.categoryCache
+        )
+      : titles.map(() => null);
+
+    const transactions = pending.map((order, index) => {
+      const memo = orderMemo(
+        order,
+        order.items,
+        this.budget!.currency_format || null
+      );
+      const category = this.reviewCategory(categorized[index]);
+      this.logChange(
+        `Recording ${this.formatAmount(
+          Math.abs(order.giftCard!) / 1000
+        )} gift card payment for order ${order.orderNumber}`
+      );
+      return {
+        account_id: accountId,
+        date: order.date.toISOString().split("T")[0],
+        amount: order.giftCard!,
+        payee_name: "Amazon",
+        memo,
+        category_id: category?.categoryId,
+        approved: false,
+        flag_color: syncedFlag(!!category?.needsReview),
+        import_id: `AMZN:${order.orderNumber}:GC`,
+      };
     });
+
+    const response = await this.api.transactions.createTransaction(
+      this.budget!.id,
+      { transactions }
+    );
+    for (const t of response.data.transactions || [])
+      this.journal.append({
+        runId: this.runId,
+        action: "create",
+        transactionId: t.id,
+        orderId: pending.find(
+          (order) => `AMZN:${order.orderNumber}:GC` === t.import_id
+        )?.id,
+        before: null,
+        after: snapshot(t),
+      });
+    // Import IDs YNAB has seen before were recorded on an earlier run
+    for (const order of pending) order.giftCardRecorded = true;
+    this.persist();
+  };
+
+  getTransaction = async (
+    transactionId: string
+  ): Promise<ynab.TransactionDetail> =>
+    (
+      await this.api.transactions.getTransactionById(
+        this.budget!.id,
+        transactionId
+      )
+    ).data.transaction;
+
+  // Matches an order with a transaction by hand, even one the matcher
+  // passed over
+  linkOrder = async (orderId: string, transactionId: string): Promise<void> => {
+    const order = this.store.state.orders[orderId];
+    if (!order) throw new Error(`Unknown order ${orderId}`);
+    if (this.store.state.matches[transactionId])
+      throw new Error(`Transaction ${transactionId} is already matched`);
+    const share = this.pendingShare(order);
+    if (!share) throw new Error(`Order ${orderId} has nothing left to match`);
+
+    this.transactions[transactionId] = await this.getUnlockedTransaction(
+      transactionId
+    );
+    this.logChange(`Linking order ${order.orderNumber || order.id} by hand`);
+    this.runId = newRunId();
+    await this.updateTransactions([
+      {
+        transactionId,
+        order,
+        itemIndexes: share.partial ? share.itemIndexes : undefined,
+      },
+    ]);
+  };
+
+  // Clears the memo, and the category unless the transaction was split, so
+  // the transaction and order can each match something else
+  unlinkTransaction = async (transactionId: string): Promise<void> => {
+    const match = this.store.state.matches[transactionId];
+    if (!match) throw new Error(`Transaction ${transactionId} isn't matched`);
+
+    const transaction = await this.getUnlockedTransaction(transactionId);
+    const split = transaction.subtransactions.length > 0;
+    const response = await this.api.transactions.updateTransaction(
+      this.budget!.id,
+      transactionId,
+      {
+        transaction: split ? { memo: null } : { memo: null, category_id: null },
+      }
+    );
+    this.journal.append({
+      runId: newRunId(),
+      action: "unlink",
+      transactionId,
+      orderId: match.orderId,
+      before: snapshot(transaction),
+      after: snapshot(response.data.transaction),
+    });
+
+    this.store.unlinkMatch(transactionId);
+    this.transactions[transactionId] = {
+      ...transaction,
+      memo: null,
+      category_id: split ? transaction.category_id : null,
+    };
+    this.logChange(
+      `Unlinked ${this.prettyTransaction(transaction)} from order ${
+        this.store.state.orders[match.orderId]?.orderNumber || match.orderId
+      }`
+    );
+    this.persist();
+  };
+
+  // Categorizes a matched transaction again, without the cached result
+  recategorize = async (transactionId: string): Promise<void> => {
+    const match = this.store.state.matches[transactionId];
+    const order = match && this.store.state.orders[match.orderId];
+    if (!order) throw new Error(`Transaction ${transactionId} isn't matched`);
+    if (!this.canCategorize()) throw new Error("Categorization is not enabled");
+
+    const transaction = await this.getUnlockedTransaction(transactionId);
+    if (transaction.subtransactions.length > 0)
+      throw new Error("Split transactions can't be categorized again");
+
+    const m = { transactionId, order, itemIndexes: match.itemIndexes };
+    this.transactions[transactionId] = transaction;
+    this.runId = newRunId();
+    const titles = matchItems(m).map((item) => item.title);
+    Categorizer.forgetCategories(
+      this.store.state.categoryCache,
+      this.categories,
+      this.canSplit(m) ? titles.map((title) => [title]) : [titles]
+    );
+    await this.updateTransactions([m]);
+  };
+
+  // Restores what the selected journal writes replaced. Transactions changed
+  // since, by the user or anything else, are skipped, and reverted matches
+  // aren't made again automatically.
+  revert = async (selection: RevertSelection): Promise<void> => {
+    const plans = planReverts(this.journal.read(), selection);
+    if (plans.length === 0) {
+      console.log("Nothing to revert");
+      return;
+    }
+
+    const runId = newRunId();
+    for (const plan of plans) {
+      const current = await this.getTransaction(plan.transactionId);
+      const label = this.prettyTransaction(current);
+      const { original } = plan;
+      if (current.deleted || !sameSnapshot(snapshot(current), plan.expected)) {
+        console.log(`Skipping ${label}, it was changed since`);
+        continue;
+      }
+      if (this.isLocked(current)) {
+        console.log(`Skipping ${label}, it was reconciled since`);
+        continue;
+      }
+      if (
+        original &&
+        original.subtransactions.length < current.subtransactions.length
+      ) {
+        console.log(
+          `Skipping ${label}, YNAB can't undo a split through the API. Undo it in YNAB instead.`
+        );
+        continue;
+      }
+
+      if (this.dryRun) {
+        console.log(`Would ${original ? "restore" : "delete"} ${label}`);
+        continue;
+      }
+
+      if (original)
+        await this.api.transactions.updateTransaction(
+          this.budget!.id,
+          plan.transactionId,
+          {
+            transaction: {
+              memo: original.memo,
+              category_id: original.category_id,
+              approved: original.approved,
+              flag_color: original.flag_color,
+            },
+          }
+        );
+      else
+        await this.api.transactions.deleteTransaction(
+          this.budget!.id,
+          plan.transactionId
+        );
+
+      this.journal.append({
+        runId,
+        action: "revert",
+        transactionId: plan.transactionId,
+        orderId: plan.orderId,
+        before: snapshot(current),
+        after: original,
+        reverts: plan.entryIds,
+      });
+      this.store.unlinkMatch(plan.transactionId);
+      delete this.transactions[plan.transactionId]; // Fetched again on the next sync
+      this.logChange(`${original ? "Restored" : "Deleted"} ${label}`);
+    }
+    this.persist();
   };
 
   matchAndUpdate = async (orders: Order[]): Promise<void> => {
+    this.runId = newRunId();
     const matches = this.matchTransactions(orders);
+    if (this.dryRun) {
+      await this.reportMatches(orders, matches);
+      return;
+    }
     if (matches.length > 0) {
       await this.updateTransactions(matches);
       console.log(
@@ -251,7 +1589,9 @@ export default class YNAB {
         } order emails cached`
       );
     }
+    await this.createTransactions(orders);
+    await this.recordGiftCards(orders);
   };
 }
 
-export type { Order };
+export type { Order, OrderItem, WritePolicy };